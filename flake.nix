@@ -26,7 +26,7 @@
             ];
             pnpmDeps = pkgs.pnpm.fetchDeps {
               inherit (finalAttrs) pname version src;
-              hash = "sha256-+xrkmGnQN0OMoxW0qeJ6biwidbx09xaHKwA1kHvYG/U=";
+              hash = pkgs.lib.fakeHash;
             };
             buildPhase = ''
               pnpm run build
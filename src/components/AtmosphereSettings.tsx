@@ -0,0 +1,133 @@
+import { Box, Card, CardContent, Divider, MenuItem, TextField, Typography } from '@mui/material';
+import type React from 'react';
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  findTurbidityPreset,
+  getPressureAtElevation,
+  getTurbidityPreset,
+  parseAtmosphere,
+  STANDARD_TEMPERATURE,
+  TURBIDITY_PRESET_NAMES,
+  type TurbidityPreset,
+} from '../solar';
+
+const CUSTOM_PRESET = 'custom';
+
+interface AtmosphereSettingsProps {
+  lat: number;
+  atmosphere: Atmosphere;
+  onAtmosphereChange: (value: Atmosphere) => void;
+}
+
+// Empty fields stand for null, the estimated value
+const parseOptional = (value: string): number | null => (value.trim() === '' ? null : parseFloat(value));
+
+const AtmosphereSettings: React.FC<AtmosphereSettingsProps> = ({ lat, atmosphere, onAtmosphereChange }) => {
+  const { t, i18n } = useTranslation();
+  const preset = findTurbidityPreset(atmosphere.turbidity, lat) ?? CUSTOM_PRESET;
+
+  const monthNames = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, month) =>
+        new Date(Date.UTC(2000, month, 1)).toLocaleDateString(i18n.language, { month: 'short', timeZone: 'UTC' }),
+      ),
+    [i18n.language],
+  );
+
+  // Out of range values are ignored, leaving the last valid settings in place
+  const update = (changes: Partial<Atmosphere>) => {
+    const parsed = parseAtmosphere({ ...atmosphere, ...changes });
+    if (parsed) onAtmosphereChange(parsed);
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {t('atmosphere.title')}
+        </Typography>
+        <Divider sx={{ mb: 3, mt: 1 }} />
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 2 }}>
+          <TextField
+            size="small"
+            type="number"
+            label={t('atmosphere.elevation')}
+            value={atmosphere.elevation}
+            onChange={(e) => update({ elevation: parseFloat(e.target.value) })}
+            slotProps={{ htmlInput: { step: 10 } }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('atmosphere.pressure')}
+            value={atmosphere.pressure ?? ''}
+            placeholder={getPressureAtElevation(atmosphere.elevation).toFixed(0)}
+            onChange={(e) => update({ pressure: parseOptional(e.target.value) })}
+            helperText={
+              atmosphere.pressure === null
+                ? t('atmosphere.pressureEstimated', { value: getPressureAtElevation(atmosphere.elevation).toFixed(0) })
+                : t('atmosphere.pressureMeasured')
+            }
+            slotProps={{ htmlInput: { step: 1 }, inputLabel: { shrink: true } }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('atmosphere.temperature')}
+            value={atmosphere.temperature ?? ''}
+            placeholder={String(STANDARD_TEMPERATURE)}
+            onChange={(e) => update({ temperature: parseOptional(e.target.value) })}
+            helperText={t('atmosphere.temperatureHelper', { value: STANDARD_TEMPERATURE })}
+            slotProps={{ htmlInput: { step: 1 }, inputLabel: { shrink: true } }}
+          />
+          <TextField
+            select
+            size="small"
+            label={t('atmosphere.preset')}
+            value={preset}
+            onChange={(e) => update({ turbidity: getTurbidityPreset(e.target.value as TurbidityPreset, lat) })}
+          >
+            {TURBIDITY_PRESET_NAMES.map((name) => (
+              <MenuItem key={name} value={name}>
+                {t(`atmosphere.presets.${name}`)}
+              </MenuItem>
+            ))}
+            <MenuItem value={CUSTOM_PRESET} disabled>
+              {t(`atmosphere.presets.${CUSTOM_PRESET}`)}
+            </MenuItem>
+          </TextField>
+        </Box>
+
+        <Typography variant="subtitle2" sx={{ textAlign: 'left', mt: 3, mb: 2 }}>
+          {t('atmosphere.turbidity')}
+        </Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(72px, 1fr))', gap: 1 }}>
+          {atmosphere.turbidity.map((value, month) => (
+            <TextField
+              key={monthNames[month]}
+              size="small"
+              type="number"
+              label={monthNames[month]}
+              value={value}
+              onChange={(e) =>
+                update({
+                  turbidity: atmosphere.turbidity.map((current, index) =>
+                    index === month ? parseFloat(e.target.value) : current,
+                  ),
+                })
+              }
+              slotProps={{ htmlInput: { step: 0.1 } }}
+            />
+          ))}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'left', mt: 2 }}>
+          {t('atmosphere.helper')}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AtmosphereSettings;
@@ -0,0 +1,168 @@
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlaceIcon from '@mui/icons-material/Place';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Divider,
+  IconButton,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { loadPlaces, type SavedPlace } from '../places';
+import { type ComparisonConfig, normalizeBearing } from '../solar';
+
+interface ComparisonSettingsProps {
+  comparisons: ComparisonConfig[];
+  current: Pick<ComparisonConfig, 'lat' | 'lon' | 'azm' | 'date'>;
+  onComparisonsChange: (value: ComparisonConfig[]) => void;
+}
+
+export const MAX_COMPARISONS = 3;
+const FIELDS = [
+  { field: 'lat', min: -90, max: 90, step: 0.0001 },
+  { field: 'lon', min: -180, max: 180, step: 0.0001 },
+  { field: 'azm', min: 0, max: 360, step: 1 },
+] as const;
+
+// Configurations are named B, C, … after the current one
+const getNextLabel = (comparisons: ComparisonConfig[]) => {
+  const used = new Set(comparisons.map(({ label }) => label));
+  for (let index = 1; ; index++) {
+    const label = String.fromCharCode(65 + index);
+    if (!used.has(label)) return label;
+  }
+};
+
+const ComparisonSettings: React.FC<ComparisonSettingsProps> = ({ comparisons, current, onComparisonsChange }) => {
+  const { t } = useTranslation();
+  const [placesAnchor, setPlacesAnchor] = useState<HTMLElement | null>(null);
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+
+  const addComparison = (config: Omit<ComparisonConfig, 'id' | 'label'>, label = getNextLabel(comparisons)) => {
+    onComparisonsChange([...comparisons, { ...config, id: crypto.randomUUID(), label }]);
+  };
+
+  const updateComparison = (id: string, changes: Partial<ComparisonConfig>) => {
+    onComparisonsChange(comparisons.map((config) => (config.id === id ? { ...config, ...changes } : config)));
+  };
+
+  const full = comparisons.length >= MAX_COMPARISONS;
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6">{t('compare.title')}</Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<AddIcon />} onClick={() => addComparison(current)} disabled={full}>
+              {t('compare.addCurrent')}
+            </Button>
+            <Button
+              startIcon={<PlaceIcon />}
+              onClick={(event) => {
+                setPlaces(loadPlaces());
+                setPlacesAnchor(event.currentTarget);
+              }}
+              disabled={full}
+            >
+              {t('compare.addPlace')}
+            </Button>
+            <Menu anchorEl={placesAnchor} open={placesAnchor !== null} onClose={() => setPlacesAnchor(null)}>
+              {places.length === 0 && <MenuItem disabled>{t('places.empty')}</MenuItem>}
+              {places.map((place) => (
+                <MenuItem
+                  key={place.id}
+                  onClick={() => {
+                    addComparison(
+                      {
+                        lat: place.lat,
+                        lon: place.lon,
+                        azm: place.azm,
+                        date: current.date,
+                        surfaces: place.surfaces,
+                        horizon: place.horizon,
+                        albedo: place.albedo,
+                        atmosphere: place.atmosphere,
+                      },
+                      place.name,
+                    );
+                    setPlacesAnchor(null);
+                  }}
+                >
+                  {place.name}
+                </MenuItem>
+              ))}
+            </Menu>
+          </Box>
+        </Box>
+        <Divider sx={{ mb: 2, mt: 1 }} />
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {comparisons.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              {t('compare.empty')}
+            </Typography>
+          )}
+          {comparisons.map((config) => (
+            <Box key={config.id} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <TextField
+                size="small"
+                label={t('compare.label')}
+                value={config.label}
+                onChange={(e) => updateComparison(config.id, { label: e.target.value })}
+                sx={{ width: 140 }}
+              />
+              {FIELDS.map(({ field, min, max, step }) => (
+                <TextField
+                  key={field}
+                  size="small"
+                  type="number"
+                  label={t(`compare.${field}`)}
+                  value={config[field]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!Number.isNaN(value) && value >= min && value <= max) {
+                      updateComparison(config.id, { [field]: field === 'azm' ? normalizeBearing(value) : value });
+                    }
+                  }}
+                  slotProps={{ htmlInput: { min, max, step } }}
+                  sx={{ width: 120 }}
+                />
+              ))}
+              <TextField
+                size="small"
+                type="date"
+                label={t('settings.date')}
+                value={config.date}
+                onChange={(e) => e.target.value && updateComparison(config.id, { date: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ width: 160 }}
+              />
+              <Tooltip title={t('surfaces.delete')}>
+                <IconButton
+                  onClick={() => onComparisonsChange(comparisons.filter(({ id }) => id !== config.id))}
+                  aria-label={t('surfaces.delete')}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            {t('compare.helper', { max: MAX_COMPARISONS })}
+          </Typography>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComparisonSettings;
@@ -0,0 +1,173 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { downloadFile } from '../export/download';
+import {
+  buildSunDataRecords,
+  type ExportFormat,
+  getDayRange,
+  MAX_EXPORT_DAYS,
+  type SunDataRequest,
+  toCsv,
+  toJson,
+} from '../export/sunData';
+import { type Atmosphere, getSideAzimuth, getSurfaceAltitude, type HorizonProfile, type Surface } from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface DataExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  lat: number;
+  lon: number;
+  azm: number;
+  date: string;
+  timeZone: string;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+}
+
+const INTERVALS = [5, 15, 30, 60]; // minutes
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+const DataExportDialog: React.FC<DataExportDialogProps> = ({
+  open,
+  onClose,
+  lat,
+  lon,
+  azm,
+  date,
+  timeZone,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+}) => {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [range, setRange] = useState<'day' | 'custom'>('day');
+  const [from, setFrom] = useState(date);
+  const [to, setTo] = useState(date);
+  const [intervalMinutes, setIntervalMinutes] = useState(15);
+
+  const [first, last] = range === 'day' ? [date, date] : [from, to];
+  const dayCount = getDayRange(first, last).length;
+
+  const handleDownload = () => {
+    const request: SunDataRequest = {
+      from: first,
+      to: last,
+      lat,
+      lon,
+      timeZone,
+      intervalMinutes,
+      surfaces: surfaces.map((surface) => ({
+        label: getSurfaceLabel(surface, azm, t),
+        sideAzimuth: getSideAzimuth(surface, azm),
+        surfaceAltitude: getSurfaceAltitude(surface),
+        options: { horizon, balcony: surface.balcony, albedo, atmosphere, timeZone },
+      })),
+      atmosphere,
+    };
+    const records = buildSunDataRecords(request);
+    const content =
+      format === 'csv'
+        ? toCsv(
+            records,
+            request.surfaces.map((surface) => surface.label),
+          )
+        : toJson(records, request);
+    const name = first === last ? first : `${first}_${last}`;
+    downloadFile(`balcon-${name}.${format}`, content, MIME_TYPES[format]);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('export.data.title')}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <ToggleButtonGroup
+          exclusive
+          fullWidth
+          size="small"
+          value={format}
+          onChange={(_, value: ExportFormat | null) => value && setFormat(value)}
+          aria-label={t('export.data.format')}
+        >
+          <ToggleButton value="csv">CSV</ToggleButton>
+          <ToggleButton value="json">JSON</ToggleButton>
+        </ToggleButtonGroup>
+        <RadioGroup value={range} onChange={(e) => setRange(e.target.value as 'day' | 'custom')}>
+          <FormControlLabel value="day" control={<Radio />} label={t('export.data.currentDay', { date })} />
+          <FormControlLabel value="custom" control={<Radio />} label={t('export.data.dateRange')} />
+        </RadioGroup>
+        {range === 'custom' && (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              fullWidth
+              label={t('export.data.from')}
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              fullWidth
+              label={t('export.data.to')}
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Box>
+        )}
+        <TextField
+          select
+          fullWidth
+          label={t('export.data.interval')}
+          value={intervalMinutes}
+          onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+        >
+          {INTERVALS.map((interval) => (
+            <MenuItem key={interval} value={interval}>
+              {t('export.data.minutes', { value: interval })}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Typography variant="caption" color={dayCount === 0 ? 'error' : 'text.secondary'}>
+          {dayCount === 0
+            ? t('export.data.invalidRange', { max: MAX_EXPORT_DAYS })
+            : t('export.data.summary', { days: dayCount, timeZone })}
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('export.cancel')}</Button>
+        <Button variant="contained" onClick={handleDownload} disabled={dayCount === 0}>
+          {t('export.download')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DataExportDialog;
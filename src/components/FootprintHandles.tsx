@@ -0,0 +1,88 @@
+import L from 'leaflet';
+import type React from 'react';
+import { Marker } from 'react-leaflet';
+import { MAX_FOOTPRINT_SIZE, MIN_FOOTPRINT_SIZE, normalizeBearing } from '../solar';
+import { latLngToOffset, offsetToLatLng } from './mapGeometry';
+
+interface FootprintHandlesProps {
+  lat: number;
+  lon: number;
+  azm: number;
+  size: number; // side of the footprint in meters
+  onAzmChange: (value: number) => void;
+  onSizeChange: (value: number) => void;
+}
+
+const ROTATION_HANDLE_MARGIN = 0.3; // beyond the footprint edge, as a fraction of its size
+
+const createHandleIcon = (symbol: string, cursor: string) =>
+  L.divIcon({
+    className: 'footprint-handle',
+    html: `<div style="
+      width: 18px;
+      height: 18px;
+      border-radius: 50%;
+      background: #fff;
+      border: 2px solid #1976d2;
+      color: #1976d2;
+      font-size: 12px;
+      line-height: 18px;
+      text-align: center;
+      cursor: ${cursor};
+      box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+    ">${symbol}</div>`,
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+  });
+
+const ROTATION_ICON = createHandleIcon('⟳', 'grab');
+const RESIZE_ICON = createHandleIcon('⤡', 'nwse-resize');
+
+// Rotate an offset given in the building frame (x along the southern side, y away from it) into east/north
+const rotate = ([x, y]: [number, number], azm: number): [number, number] => {
+  const angle = (-azm * Math.PI) / 180;
+  return [x * Math.cos(angle) - y * Math.sin(angle), x * Math.sin(angle) + y * Math.cos(angle)];
+};
+
+// Handles to rotate and resize the building footprint by dragging them on the map
+const FootprintHandles: React.FC<FootprintHandlesProps> = ({ lat, lon, azm, size, onAzmChange, onSizeChange }) => {
+  // The rotation handle sits in front of the southern side, whose bearing is 180° + azm
+  const rotationPosition = offsetToLatLng(lat, lon, rotate([0, -size * (0.5 + ROTATION_HANDLE_MARGIN)], azm));
+  const resizePosition = offsetToLatLng(lat, lon, rotate([size / 2, size / 2], azm));
+
+  const handleRotate = (event: L.LeafletEvent) => {
+    const { lat: handleLat, lng: handleLon } = (event.target as L.Marker).getLatLng();
+    const [x, y] = latLngToOffset(lat, lon, [handleLat, handleLon]);
+    if (x === 0 && y === 0) return;
+    const bearing = (Math.atan2(x, y) * 180) / Math.PI;
+    // Orientation is the bearing of the southern side minus 180°
+    onAzmChange(normalizeBearing(Math.round(bearing - 180)));
+  };
+
+  const handleResize = (event: L.LeafletEvent) => {
+    const { lat: handleLat, lng: handleLon } = (event.target as L.Marker).getLatLng();
+    const [x, y] = latLngToOffset(lat, lon, [handleLat, handleLon]);
+    // Distance to the corner is half the diagonal
+    const value = Math.hypot(x, y) * Math.SQRT2;
+    onSizeChange(Math.round(Math.max(MIN_FOOTPRINT_SIZE, Math.min(MAX_FOOTPRINT_SIZE, value)) * 10) / 10);
+  };
+
+  return (
+    <>
+      <Marker
+        position={rotationPosition}
+        icon={ROTATION_ICON}
+        draggable
+        eventHandlers={{ drag: handleRotate, dragend: handleRotate }}
+      />
+      <Marker
+        position={resizePosition}
+        icon={RESIZE_ICON}
+        draggable
+        eventHandlers={{ drag: handleResize, dragend: handleResize }}
+      />
+    </>
+  );
+};
+
+export default FootprintHandles;
@@ -0,0 +1,189 @@
+import { Box, Button, Divider, Paper, Typography } from '@mui/material';
+import type React from 'react';
+import { useCallback, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  createFlatHorizon,
+  type HorizonProfile,
+  MAX_HORIZON_ELEVATION,
+  type SunPositionData,
+  toCompassBearing,
+} from '../solar';
+
+interface HorizonEditorProps {
+  horizon: HorizonProfile;
+  sunPositionData: SunPositionData[];
+  onHorizonChange: (value: HorizonProfile) => void;
+}
+
+const EDITOR_HEIGHT = 180; // px
+const SKYLINE_COLOR = '#78788c';
+const SUN_PATH_COLOR = '#FFD700';
+const BEARING_GRID = [0, 45, 90, 135, 180, 225, 270, 315, 360];
+const ELEVATION_GRID = [15, 30, 45, 60, 75];
+const COMPASS_LABELS = [
+  { bearing: 0, key: 'north' },
+  { bearing: 90, key: 'east' },
+  { bearing: 180, key: 'south' },
+  { bearing: 270, key: 'west' },
+  { bearing: 360, key: 'north' },
+];
+
+// SVG y coordinate of an elevation angle, the viewBox spans one unit per degree
+const toY = (elevation: number) => MAX_HORIZON_ELEVATION - elevation;
+
+const HorizonEditor: React.FC<HorizonEditorProps> = ({ horizon, sunPositionData, onHorizonChange }) => {
+  const { t } = useTranslation();
+  const draggingRef = useRef(false);
+  const step = 360 / horizon.length;
+
+  // Set the sector under the pointer to the elevation under the pointer
+  const applyPointer = useCallback(
+    (event: React.PointerEvent<SVGSVGElement>) => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const bearing = ((event.clientX - rect.left) / rect.width) * 360;
+      const elevation = (1 - (event.clientY - rect.top) / rect.height) * MAX_HORIZON_ELEVATION;
+      const index = Math.round(bearing / step) % horizon.length;
+      const clamped = Math.round(Math.max(0, Math.min(MAX_HORIZON_ELEVATION, elevation)));
+      if (horizon[index] === clamped) return;
+      onHorizonChange(horizon.map((value, i) => (i === index ? clamped : value)));
+    },
+    [horizon, step, onHorizonChange],
+  );
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    draggingRef.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    applyPointer(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (draggingRef.current) applyPointer(event);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    draggingRef.current = false;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const skylinePoints = [...horizon, horizon[0]].map((elevation, i) => `${i * step},${toY(elevation)}`);
+  const skylinePolygon = [`0,${MAX_HORIZON_ELEVATION}`, ...skylinePoints, `360,${MAX_HORIZON_ELEVATION}`].join(' ');
+
+  // Split the sun path wherever it wraps around North
+  const sunPathSegments = useMemo(() => {
+    const segments: string[][] = [];
+    let current: string[] = [];
+    let previousBearing: number | null = null;
+    for (const { position } of sunPositionData) {
+      if (position.altitude <= 0) {
+        if (current.length > 0) segments.push(current);
+        current = [];
+        previousBearing = null;
+        continue;
+      }
+      const bearing = toCompassBearing(position.azimuth);
+      if (previousBearing !== null && Math.abs(bearing - previousBearing) > 180) {
+        segments.push(current);
+        current = [];
+      }
+      current.push(`${bearing},${toY((position.altitude * 180) / Math.PI)}`);
+      previousBearing = bearing;
+    }
+    if (current.length > 0) segments.push(current);
+    return segments;
+  }, [sunPositionData]);
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        {t('horizon.title')}
+      </Typography>
+      <Divider sx={{ mb: 3, mt: 1 }} />
+      <Box sx={{ position: 'relative' }}>
+        <svg
+          viewBox={`0 0 360 ${MAX_HORIZON_ELEVATION}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={t('horizon.title')}
+          style={{
+            display: 'block',
+            width: '100%',
+            height: EDITOR_HEIGHT,
+            background: 'rgba(255, 255, 255, 0.05)',
+            borderRadius: 4,
+            cursor: 'crosshair',
+            touchAction: 'none',
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {/* Grid every 45° of bearing and 15° of elevation */}
+          {BEARING_GRID.map((bearing) => (
+            <line
+              key={`bearing-${bearing}`}
+              x1={bearing}
+              x2={bearing}
+              y1={0}
+              y2={MAX_HORIZON_ELEVATION}
+              stroke="rgba(255, 255, 255, 0.15)"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {ELEVATION_GRID.map((elevation) => (
+            <line
+              key={`elevation-${elevation}`}
+              x1={0}
+              x2={360}
+              y1={toY(elevation)}
+              y2={toY(elevation)}
+              stroke="rgba(255, 255, 255, 0.15)"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {sunPathSegments.map((segment) => (
+            <polyline
+              key={segment[0]}
+              points={segment.join(' ')}
+              fill="none"
+              stroke={SUN_PATH_COLOR}
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          <polygon points={skylinePolygon} fill={SKYLINE_COLOR} fillOpacity={0.6} />
+          <polyline
+            points={skylinePoints.join(' ')}
+            fill="none"
+            stroke="#fff"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {/* Compass labels */}
+        <Box sx={{ position: 'relative', height: 20 }}>
+          {COMPASS_LABELS.map(({ bearing, key }) => (
+            <Typography
+              key={bearing}
+              variant="caption"
+              sx={{ position: 'absolute', left: `${(bearing / 360) * 100}%`, transform: 'translateX(-50%)' }}
+            >
+              {t(`horizon.compass.${key}`)}
+            </Typography>
+          ))}
+        </Box>
+      </Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mt: 1 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'left' }}>
+          {t('horizon.helper')}
+        </Typography>
+        <Button variant="outlined" size="small" onClick={() => onHorizonChange(createFlatHorizon(horizon.length))}>
+          {t('horizon.reset')}
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default HorizonEditor;
@@ -1,9 +1,14 @@
-import { Box, Paper, Typography } from '@mui/material';
+import WbTwilightIcon from '@mui/icons-material/WbTwilight';
+import { Box, InputAdornment, Paper, TextField, ToggleButton, Tooltip, Typography } from '@mui/material';
 import L from 'leaflet';
 import React from 'react';
 import { useTranslation } from 'react-i18next';
-import { MapContainer, Marker, Polyline, TileLayer, useMap } from 'react-leaflet';
+import { MapContainer, Marker, Polygon, Polyline, TileLayer, useMap } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
+import { getSurfaceOutline, MAX_FOOTPRINT_SIZE, MIN_FOOTPRINT_SIZE, type Surface } from '../solar';
+import FootprintHandles from './FootprintHandles';
+import MoonRays from './MoonRays';
+import { offsetToLatLng } from './mapGeometry';
 import SunRays from './SunRays';
 
 // Fix for default markers in react-leaflet
@@ -30,48 +35,43 @@ interface LocationMapProps {
   lon: number;
   azm: number;
   date: string;
+  timeZone: string;
+  surfaces: Surface[];
+  selectedTime?: Date | null;
+  hoverTime?: Date | null;
+  footprintSize: number; // side of the building footprint in meters
+  phaseRays: boolean; // whether twilight, blue hour, golden hour and solar noon rays are drawn
+  moon: boolean; // whether the moon rays are drawn
+  onLocationChange: (lat: number, lon: number) => void;
+  onAzmChange: (value: number) => void;
+  onFootprintSizeChange: (value: number) => void;
+  onPhaseRaysChange: (value: boolean) => void;
 }
 
-const LocationMap: React.FC<LocationMapProps> = ({ lat, lon, azm, date }) => {
+const LocationMap: React.FC<LocationMapProps> = ({
+  lat,
+  lon,
+  azm,
+  date,
+  timeZone,
+  surfaces,
+  selectedTime,
+  hoverTime,
+  footprintSize,
+  phaseRays,
+  moon,
+  onLocationChange,
+  onAzmChange,
+  onFootprintSizeChange,
+  onPhaseRaysChange,
+}) => {
   const { t } = useTranslation();
-  const getSidePolygons = () => {
-    const sizeMeters = 10; // 10 meter square
-    const orientationRad = (-azm * Math.PI) / 180;
-
-    // Convert meters to lat/lon offsets
-    // 1 degree latitude ≈ 111,320 meters
-    // 1 degree longitude ≈ 111,320 * cos(latitude) meters
-    const latOffset = sizeMeters / 111320;
-    const lonOffset = sizeMeters / (111320 * Math.cos((lat * Math.PI) / 180));
-
-    const corners = [
-      [0.5, 0.5],
-      [-0.5, 0.5],
-      [-0.5, -0.5],
-      [0.5, -0.5],
-    ].map(([dx, dy]) => {
-      // Apply rotation
-      const dxRot = dx * Math.cos(orientationRad) - dy * Math.sin(orientationRad);
-      const dyRot = dx * Math.sin(orientationRad) + dy * Math.cos(orientationRad);
-
-      // Convert to lat/lon coordinates
-      const newLat = lat + dyRot * latOffset;
-      const newLon = lon + dxRot * lonOffset;
-
-      return [newLat, newLon] as [number, number];
+  const getSurfaceShapes = () =>
+    surfaces.map((surface) => {
+      const { flat, points } = getSurfaceOutline(surface, azm, footprintSize);
+      return { surface, flat, positions: points.map((point) => offsetToLatLng(lat, lon, point)) };
     });
 
-    // Define the sides with their colors
-    const sides = [
-      { name: 'east', color: '#FFD300', positions: [corners[0], corners[3]] },
-      { name: 'south', color: '#FF0000', positions: [corners[3], corners[2]] },
-      { name: 'west', color: '#3914AF', positions: [corners[2], corners[1]] },
-      { name: 'north', color: '#00CC00', positions: [corners[1], corners[0]] },
-    ];
-
-    return sides;
-  };
-
   return (
     <Paper
       elevation={3}
@@ -84,9 +84,42 @@ const LocationMap: React.FC<LocationMapProps> = ({ lat, lon, azm, date }) => {
         minHeight: { xs: 400, sm: 'auto' },
       }}
     >
-      <Box sx={{ p: 2 }}>
-        <Typography variant="h6">{t('map.title')}</Typography>
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+        <Typography variant="h6" sx={{ flex: 1, textAlign: 'left' }}>
+          {t('map.title')}
+        </Typography>
+        <Tooltip title={t('map.phaseRays')}>
+          <ToggleButton
+            size="small"
+            value="phaseRays"
+            selected={phaseRays}
+            onChange={() => onPhaseRaysChange(!phaseRays)}
+            aria-label={t('map.phaseRays')}
+          >
+            <WbTwilightIcon />
+          </ToggleButton>
+        </Tooltip>
+        <TextField
+          size="small"
+          type="number"
+          label={t('map.footprintSize')}
+          value={footprintSize}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!Number.isNaN(value) && value >= MIN_FOOTPRINT_SIZE && value <= MAX_FOOTPRINT_SIZE) {
+              onFootprintSizeChange(value);
+            }
+          }}
+          slotProps={{
+            htmlInput: { step: 0.5, min: MIN_FOOTPRINT_SIZE, max: MAX_FOOTPRINT_SIZE },
+            input: { endAdornment: <InputAdornment position="end">m</InputAdornment> },
+          }}
+          sx={{ width: 140 }}
+        />
       </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ px: 2, pb: 1 }}>
+        {t('map.helper')}
+      </Typography>
       <Box sx={{ width: '100%', height: { xs: 356, sm: '100%' } }}>
         <MapContainer center={[lat, lon]} zoom={18} style={{ height: '100%', width: '100%' }}>
           <MapUpdater lat={lat} lon={lon} />
@@ -94,19 +127,59 @@ const LocationMap: React.FC<LocationMapProps> = ({ lat, lon, azm, date }) => {
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
             attribution="&copy; OpenStreetMap contributors"
           />
-          <Marker position={[lat, lon]} />
-          <SunRays lat={lat} lon={lon} date={date} />
-          {getSidePolygons().map((side) => (
-            <Polyline
-              key={side.name}
-              positions={side.positions}
-              pathOptions={{
-                color: side.color,
-                weight: 6,
-                opacity: 0.8,
-              }}
-            />
-          ))}
+          <Marker
+            position={[lat, lon]}
+            draggable
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat: newLat, lng: newLon } = (event.target as L.Marker).getLatLng();
+                onLocationChange(Number(newLat.toFixed(6)), Number(newLon.toFixed(6)));
+              },
+            }}
+          />
+          <SunRays
+            lat={lat}
+            lon={lon}
+            date={date}
+            timeZone={timeZone}
+            selectedTime={selectedTime}
+            hoverTime={hoverTime}
+            showPhases={phaseRays}
+          />
+          {moon && <MoonRays lat={lat} lon={lon} date={date} timeZone={timeZone} />}
+          {getSurfaceShapes().map(({ surface, flat, positions }) =>
+            flat ? (
+              <Polygon
+                key={surface.id}
+                positions={positions}
+                pathOptions={{
+                  color: surface.color,
+                  weight: 2,
+                  opacity: 0.8,
+                  fillOpacity: 0.2,
+                }}
+              />
+            ) : (
+              <Polyline
+                key={surface.id}
+                positions={positions}
+                pathOptions={{
+                  color: surface.color,
+                  weight: 6,
+                  opacity: 0.8,
+                  dashArray: surface.tilt < 90 ? '8, 6' : undefined,
+                }}
+              />
+            ),
+          )}
+          <FootprintHandles
+            lat={lat}
+            lon={lon}
+            azm={azm}
+            size={footprintSize}
+            onAzmChange={onAzmChange}
+            onSizeChange={onFootprintSizeChange}
+          />
         </MapContainer>
       </Box>
     </Paper>
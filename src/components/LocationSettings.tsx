@@ -1,29 +1,86 @@
-import { Box, Divider, Paper, TextField, Typography } from '@mui/material';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import { Box, Chip, Divider, FormControlLabel, Paper, Switch, TextField, Tooltip, Typography } from '@mui/material';
 import type React from 'react';
 import { useTranslation } from 'react-i18next';
+import {
+  formatOffset,
+  getCompassPoint,
+  getEquatorBearing,
+  getSurfaceBearing,
+  getTimeZoneOffset,
+  isValidDay,
+  normalizeBearing,
+  parseDay,
+  type Surface,
+  zonedTimeToDate,
+} from '../solar';
+import PlaceSearch from './PlaceSearch';
+import { getSurfaceLabel } from './surfaceLabel';
 
 interface LocationSettingsProps {
   lat: number;
   lon: number;
   azm: number;
   date: string;
+  timeZone: string;
+  albedo: number;
+  surfaces: Surface[];
   onLatChange: (value: number) => void;
   onLonChange: (value: number) => void;
   onAzmChange: (value: number) => void;
   onDateChange: (value: string) => void;
+  onAlbedoChange: (value: number) => void;
+  weather: boolean;
+  forecastStatus: ForecastStatus;
+  climateRegion: string; // id of the region whose typical cloudiness is used
+  onWeatherChange: (value: boolean) => void;
 }
 
+export type ForecastStatus = 'loading' | 'ready' | 'failed';
+
 const LocationSettings: React.FC<LocationSettingsProps> = ({
   lat,
   lon,
   azm,
   date,
+  timeZone,
+  albedo,
+  surfaces,
   onLatChange,
   onLonChange,
   onAzmChange,
   onDateChange,
+  onAlbedoChange,
+  weather,
+  forecastStatus,
+  climateRegion,
+  onWeatherChange,
 }) => {
   const { t } = useTranslation();
+  // Offset in effect at noon of the selected day, so DST is accounted for
+  const offset = getTimeZoneOffset(zonedTimeToDate({ ...parseDay(date), hour: 12, minute: 0 }, timeZone), timeZone);
+
+  // Point out the wall closest to facing the equator, the sunny side outside the tropics
+  const getOrientationHelper = () => {
+    const equatorBearing = getEquatorBearing(lat);
+    const direction = t(`compass.${getCompassPoint(equatorBearing)}`);
+    const angleToEquator = (surface: Surface) =>
+      Math.abs(normalizeBearing(getSurfaceBearing(surface, azm) - equatorBearing + 180) - 180);
+    const sunnySide = surfaces
+      .filter((surface) => surface.tilt > 0)
+      .reduce<Surface | null>(
+        (best, surface) => (best && angleToEquator(best) <= angleToEquator(surface) ? best : surface),
+        null,
+      );
+    return sunnySide
+      ? t('settings.orientationHelper', {
+          direction,
+          side: getSurfaceLabel(sunnySide, azm, t),
+          bearing: Math.round(getSurfaceBearing(sunnySide, azm)),
+        })
+      : t('settings.orientationHelperNoWalls', { direction });
+  };
+
   return (
     <Paper
       elevation={3}
@@ -40,6 +97,12 @@ const LocationSettings: React.FC<LocationSettingsProps> = ({
       </Typography>
       <Divider sx={{ mb: 4, mt: 1 }} />
       <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, flex: 1 }}>
+        <PlaceSearch
+          onLocationChange={(newLat, newLon) => {
+            onLatChange(newLat);
+            onLonChange(newLon);
+          }}
+        />
         <TextField
           fullWidth
           label={t('settings.latitude')}
@@ -82,34 +145,76 @@ const LocationSettings: React.FC<LocationSettingsProps> = ({
         />
         <TextField
           fullWidth
-          label={t('settings.southernSideAzimuth')}
+          label={t('settings.orientation')}
           type="number"
           slotProps={{
             htmlInput: {
               step: 1,
-              min: -45,
-              max: 45,
+              min: 0,
+              max: 360,
             },
           }}
           value={azm}
           onChange={(e) => {
             const value = parseFloat(e.target.value);
-            if (!Number.isNaN(value) && value >= -45 && value <= 45) {
-              onAzmChange(value);
+            if (!Number.isNaN(value) && value >= 0 && value <= 360) {
+              onAzmChange(normalizeBearing(value));
             }
           }}
-          helperText={t('settings.azimuthHelper')}
+          helperText={getOrientationHelper()}
         />
         <TextField
           fullWidth
           label={t('settings.date')}
           type="date"
           value={date}
-          onChange={(e) => onDateChange(e.target.value)}
+          onChange={(e) => isValidDay(e.target.value) && onDateChange(e.target.value)}
           slotProps={{
             inputLabel: { shrink: true },
           }}
         />
+        <Tooltip title={t('settings.timeZoneHelper')}>
+          <Chip
+            icon={<AccessTimeIcon />}
+            label={`${timeZone} (${formatOffset(offset)})`}
+            variant="outlined"
+            size="small"
+            sx={{ alignSelf: 'flex-start', mt: -1 }}
+          />
+        </Tooltip>
+        <TextField
+          fullWidth
+          label={t('settings.albedo')}
+          type="number"
+          slotProps={{
+            htmlInput: {
+              step: 0.05,
+              min: 0,
+              max: 1,
+            },
+          }}
+          value={albedo}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!Number.isNaN(value) && value >= 0 && value <= 1) {
+              onAlbedoChange(value);
+            }
+          }}
+          helperText={t('settings.albedoHelper')}
+        />
+        <Box sx={{ textAlign: 'left' }}>
+          <FormControlLabel
+            control={<Switch checked={weather} onChange={(e) => onWeatherChange(e.target.checked)} />}
+            label={t('weather.toggle')}
+          />
+          <Typography variant="caption" color="text.secondary" component="p">
+            {weather
+              ? `${t(`weather.forecast.${forecastStatus}`)} ${t('weather.climate', {
+                  region: t(`weather.regions.${climateRegion}`),
+                })}`
+              : t('weather.helper')}
+          </Typography>
+        </Box>
       </Box>
     </Paper>
   );
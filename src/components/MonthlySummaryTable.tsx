@@ -0,0 +1,140 @@
+import {
+  Box,
+  Card,
+  CardContent,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  applyClearSkyIndex,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  type Surface,
+  sampleRepresentativeDays,
+  summarizeMonths,
+} from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+const MONTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+interface MonthlySummaryTableProps {
+  year: number;
+  lat: number;
+  lon: number;
+  azm: number;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  timeZone: string;
+  clearSkyIndex?: number[]; // typical cloudiness of each month, clear sky when missing
+}
+
+const MonthlySummaryTable: React.FC<MonthlySummaryTableProps> = ({
+  year,
+  lat,
+  lon,
+  azm,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  timeZone,
+  clearSkyIndex,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  const monthlySamples = useMemo(() => sampleRepresentativeDays(year, lat, lon, timeZone), [year, lat, lon, timeZone]);
+
+  const summaries = useMemo(
+    () =>
+      surfaces.map((surface) =>
+        summarizeMonths(monthlySamples, getSideAzimuth(surface, azm), getSurfaceAltitude(surface), {
+          horizon,
+          balcony: surface.balcony,
+          albedo,
+          atmosphere,
+          timeZone,
+        }).map((summary) => (clearSkyIndex ? applyClearSkyIndex(summary, clearSkyIndex[summary.month]) : summary)),
+      ),
+    [monthlySamples, surfaces, azm, horizon, albedo, atmosphere, timeZone, clearSkyIndex],
+  );
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {t('monthly.title', { year })}
+        </Typography>
+        <Divider sx={{ mb: 3, mt: 1 }} />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('monthly.month')}</TableCell>
+                {surfaces.map((surface) => (
+                  <TableCell key={surface.id} align="right">
+                    <Box
+                      component="span"
+                      sx={{
+                        display: 'inline-block',
+                        width: 10,
+                        height: 10,
+                        borderRadius: 0.5,
+                        backgroundColor: surface.color,
+                        mr: 1,
+                      }}
+                    />
+                    {getSurfaceLabel(surface, azm, t)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {MONTHS.map((month) => (
+                <TableRow key={month}>
+                  <TableCell component="th" scope="row">
+                    {new Date(Date.UTC(year, month, 1)).toLocaleDateString(i18n.language, {
+                      month: 'long',
+                      timeZone: 'UTC',
+                    })}
+                  </TableCell>
+                  {surfaces.map((surface, index) => {
+                    const summary = summaries[index][month];
+                    return (
+                      <TableCell key={surface.id} align="right" sx={{ whiteSpace: 'nowrap', lineHeight: 1.3 }}>
+                        <Box component="span" sx={{ fontWeight: 700 }}>
+                          {t('monthly.directSunHours', { value: summary.directSunHours.toFixed(1) })}
+                        </Box>
+                        <br />
+                        {t('monthly.peakIrradiance', { value: Math.round(summary.peakIrradiance) })}
+                        <br />
+                        {t('monthly.irradiation', { value: (summary.irradiation / 1000).toFixed(2) })}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'left', mt: 2 }}>
+          {t('monthly.helper')} {clearSkyIndex && t('weather.climatologyApplied')}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonthlySummaryTable;
@@ -0,0 +1,41 @@
+import { Box } from '@mui/material';
+import type React from 'react';
+
+const LIT_COLOR = '#ECEFF1';
+const DARK_COLOR = '#37474F';
+
+interface MoonPhaseIconProps {
+  cycle: number; // position in the lunar cycle (0-1), 0 = new moon, 0.5 = full moon
+  illumination: number; // illuminated share of the disc (0-1)
+  southern?: boolean; // seen upside down south of the equator, lit from the other side
+  size?: number; // in px
+  label?: string;
+}
+
+// Moon disc with its lit part: a half disc on the sunward side, widened or narrowed by the terminator ellipse
+const MoonPhaseIcon: React.FC<MoonPhaseIconProps> = ({ cycle, illumination, southern = false, size = 32, label }) => {
+  const waxing = cycle < 0.5;
+  const gibbous = illumination > 0.5;
+  const terminatorRadius = Math.abs(1 - 2 * illumination);
+  // Arcs run from the top to the bottom along the limb, then back up along the terminator
+  const limbSweep = waxing ? 1 : 0;
+  const terminatorSweep = waxing === gibbous ? 1 : 0;
+
+  return (
+    <Box
+      component="svg"
+      viewBox="-1.05 -1.05 2.1 2.1"
+      role="img"
+      aria-label={label}
+      sx={{ width: size, height: size, flexShrink: 0, transform: southern ? 'scaleX(-1)' : undefined }}
+    >
+      <circle r={1} fill={DARK_COLOR} />
+      <path
+        d={`M 0 -1 A 1 1 0 0 ${limbSweep} 0 1 A ${terminatorRadius} 1 0 0 ${terminatorSweep} 0 -1 Z`}
+        fill={LIT_COLOR}
+      />
+    </Box>
+  );
+};
+
+export default MoonPhaseIcon;
@@ -0,0 +1,65 @@
+import L from 'leaflet';
+import React from 'react';
+import { Marker, Polyline } from 'react-leaflet';
+import { formatTime, getMoonRays } from '../solar';
+import { MOON_COLOR } from './chartColors';
+
+const RAY_LENGTH = 140; // meters, a little shorter than the sun rays so both fans stay readable
+const EVENT_COLOR = '#90A4AE';
+
+// Component to draw moon rays, hourly while the moon is up plus moonrise and moonset
+const MoonRays: React.FC<{
+  lat: number;
+  lon: number;
+  date: string;
+  timeZone: string;
+}> = ({ lat, lon, date, timeZone }) => {
+  const rays = getMoonRays(date, lat, lon, timeZone).map(({ time, position, event }) => {
+    const rayLength = RAY_LENGTH * Math.cos(position.altitude);
+    return {
+      time,
+      event,
+      end: [
+        lat - (Math.cos(position.azimuth) * rayLength) / 111320,
+        lon - (Math.sin(position.azimuth) * rayLength) / (111320 * Math.cos((lat * Math.PI) / 180)),
+      ] as [number, number],
+    };
+  });
+
+  return (
+    <>
+      {rays.map((ray) => (
+        <React.Fragment key={`moon-${ray.time.getTime()}`}>
+          <Polyline
+            positions={[[lat, lon], ray.end]}
+            pathOptions={{
+              color: ray.event ? EVENT_COLOR : MOON_COLOR,
+              weight: ray.event ? 4 : 2,
+              opacity: 0.8,
+              dashArray: '1, 6',
+            }}
+          />
+          <Marker
+            position={ray.end}
+            icon={L.divIcon({
+              className: 'moon-ray-label',
+              html: `<div style="
+                background: ${ray.event ? EVENT_COLOR : MOON_COLOR};
+                color: #000;
+                padding: 2px 6px;
+                border-radius: 4px;
+                font-size: 10px;
+                font-weight: bold;
+                white-space: nowrap;
+              ">${ray.event ? '🌙' : ''}${formatTime(ray.time, timeZone)}</div>`,
+              iconSize: [50, 20],
+              iconAnchor: [25, 10],
+            })}
+          />
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default MoonRays;
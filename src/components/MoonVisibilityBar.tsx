@@ -0,0 +1,83 @@
+import { Box, Typography } from '@mui/material';
+import type React from 'react';
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Balcony,
+  calculateMoonVisibility,
+  getMoonVisibleHours,
+  type HorizonProfile,
+  type MoonPositionData,
+} from '../solar';
+import { MOON_COLOR } from './chartColors';
+import { LABEL_WIDTH, SUMMARY_WIDTH } from './chartLayout';
+
+const BAR_HEIGHT = 8;
+
+interface MoonVisibilityBarProps {
+  moonPositions: MoonPositionData[];
+  sideAzimuth: number; // azimuth of the side in radians from North
+  surfaceAltitude: number; // altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+  horizon?: HorizonProfile;
+  balcony?: Balcony;
+}
+
+// Thin bar under a surface's intensity bar, lit while the moon can be seen from it, brighter as it grows full
+const MoonVisibilityBar: React.FC<MoonVisibilityBarProps> = ({
+  moonPositions,
+  sideAzimuth,
+  surfaceAltitude,
+  horizon,
+  balcony,
+}) => {
+  const { t } = useTranslation();
+  const samples = useMemo(
+    () => calculateMoonVisibility(moonPositions, sideAzimuth, surfaceAltitude, { horizon, balcony }),
+    [moonPositions, sideAzimuth, surfaceAltitude, horizon, balcony],
+  );
+  const hours = useMemo(() => getMoonVisibleHours(samples), [samples]);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: -0.5 }}>
+      <Box sx={{ width: LABEL_WIDTH, flexShrink: 0 }} />
+      <Typography
+        variant="body2"
+        color="text.secondary"
+        sx={{ width: SUMMARY_WIDTH, flexShrink: 0, fontSize: '0.7rem', lineHeight: 1.2, textAlign: 'left' }}
+      >
+        {t('moon.visibleHours', { value: hours.toFixed(1) })}
+      </Typography>
+      <Box
+        sx={{
+          flex: 1,
+          height: BAR_HEIGHT,
+          position: 'relative',
+          backgroundColor: 'rgba(255, 255, 255, 0.05)',
+          borderRadius: 1,
+          overflow: 'hidden',
+        }}
+      >
+        {samples.map((sample, index) =>
+          sample.visible ? (
+            <Box
+              key={sample.time.getTime()}
+              sx={{
+                position: 'absolute',
+                left: `${(index / samples.length) * 100}%`,
+                width: `${100 / samples.length}%`,
+                top: 0,
+                bottom: 0,
+                backgroundColor: MOON_COLOR,
+                // A new moon is up but barely seen, keep it faintly visible
+                opacity: 0.25 + 0.75 * sample.illumination,
+              }}
+            />
+          ) : null,
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+// Memoized like the intensity bars, the time cursor moving does not change them
+export default memo(MoonVisibilityBar);
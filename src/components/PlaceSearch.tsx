@@ -0,0 +1,121 @@
+import MyLocationIcon from '@mui/icons-material/MyLocation';
+import { Autocomplete, Box, CircularProgress, IconButton, TextField, Tooltip } from '@mui/material';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createGeocoder, type Geocoder, type GeocodingResult } from '../geocoding';
+
+interface PlaceSearchProps {
+  onLocationChange: (lat: number, lon: number) => void;
+  geocoder?: Geocoder;
+}
+
+const DEFAULT_GEOCODER = createGeocoder();
+const SEARCH_DELAY = 500; // ms, public Nominatim allows at most one request per second
+const MIN_QUERY_LENGTH = 3;
+const COORDINATE_DIGITS = 6; // ~0.1 m, finer than any geocoder or GPS fix
+
+const roundCoordinate = (value: number) => Number(value.toFixed(COORDINATE_DIGITS));
+
+const PlaceSearch: React.FC<PlaceSearchProps> = ({ onLocationChange, geocoder = DEFAULT_GEOCODER }) => {
+  const { t, i18n } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodingResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Search once typing pauses, dropping requests superseded by newer input
+  useEffect(() => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      setSearching(true);
+      geocoder
+        .search(query.trim(), { language: i18n.language, signal: controller.signal })
+        .then((found) => {
+          setResults(found);
+          setError(null);
+        })
+        .catch(() => {
+          if (controller.signal.aborted) return;
+          setError(t('settings.search.failed'));
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setSearching(false);
+        });
+    }, SEARCH_DELAY);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, geocoder, i18n.language, t]);
+
+  const handleLocate = () => {
+    if (!('geolocation' in navigator)) {
+      setError(t('settings.search.geolocationUnavailable'));
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setLocating(false);
+        setError(null);
+        onLocationChange(roundCoordinate(coords.latitude), roundCoordinate(coords.longitude));
+      },
+      () => {
+        setLocating(false);
+        setError(t('settings.search.geolocationFailed'));
+      },
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+      <Autocomplete
+        fullWidth
+        options={results}
+        filterOptions={(options) => options} // the geocoder already filtered them
+        getOptionLabel={(option) => option.label}
+        isOptionEqualToValue={(option, value) => option.id === value.id}
+        loading={searching}
+        noOptionsText={
+          query.trim().length < MIN_QUERY_LENGTH ? t('settings.search.typeMore') : t('settings.search.noResults')
+        }
+        loadingText={t('settings.search.loading')}
+        onInputChange={(_, value, reason) => {
+          if (reason === 'input') setQuery(value);
+        }}
+        onChange={(_, value) => {
+          if (value) onLocationChange(roundCoordinate(value.lat), roundCoordinate(value.lon));
+        }}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label={t('settings.search.label')}
+            error={error !== null}
+            helperText={error ?? t('settings.search.helper')}
+          />
+        )}
+      />
+      <Tooltip title={t('settings.search.useMyLocation')}>
+        <span>
+          <IconButton
+            onClick={handleLocate}
+            disabled={locating}
+            aria-label={t('settings.search.useMyLocation')}
+            sx={{ mt: 1 }}
+          >
+            {locating ? <CircularProgress size={24} /> : <MyLocationIcon />}
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default PlaceSearch;
@@ -0,0 +1,170 @@
+import { Box, Card, CardContent, Chip, Divider, Tooltip, Typography } from '@mui/material';
+import type React from 'react';
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { suggestPlants } from '../plants';
+import {
+  type Atmosphere,
+  applyClearSkyIndex,
+  classifyMonths,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  LIGHT_LEVEL_HOURS,
+  LIGHT_LEVELS,
+  type LightLevel,
+  type Surface,
+  sampleRepresentativeDays,
+  summarizeMonths,
+} from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+const LIGHT_LEVEL_COLORS: Record<LightLevel, string> = {
+  fullSun: '#FFC107',
+  partialSun: '#FFE082',
+  partialShade: '#78909C',
+  fullShade: '#37474F',
+};
+
+interface PlantSuggestionsProps {
+  year: number;
+  lat: number;
+  lon: number;
+  azm: number;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  timeZone: string;
+  clearSkyIndex?: number[]; // typical cloudiness of each month, clear sky when missing
+}
+
+const PlantSuggestions: React.FC<PlantSuggestionsProps> = ({
+  year,
+  lat,
+  lon,
+  azm,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  timeZone,
+  clearSkyIndex,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  const monthlySamples = useMemo(() => sampleRepresentativeDays(year, lat, lon, timeZone), [year, lat, lon, timeZone]);
+
+  const rows = useMemo(
+    () =>
+      surfaces.map((surface) => {
+        const summaries = summarizeMonths(monthlySamples, getSideAzimuth(surface, azm), getSurfaceAltitude(surface), {
+          horizon,
+          balcony: surface.balcony,
+          albedo,
+          atmosphere,
+          timeZone,
+        }).map((summary) => (clearSkyIndex ? applyClearSkyIndex(summary, clearSkyIndex[summary.month]) : summary));
+        const levels = classifyMonths(summaries);
+        return { surface, summaries, levels, suggestions: suggestPlants(levels, lat) };
+      }),
+    [monthlySamples, surfaces, azm, horizon, albedo, atmosphere, timeZone, lat, clearSkyIndex],
+  );
+
+  const monthNames = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, month) =>
+        new Date(Date.UTC(year, month, 1)).toLocaleDateString(i18n.language, { month: 'long', timeZone: 'UTC' }),
+      ),
+    [year, i18n.language],
+  );
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {t('garden.title')}
+        </Typography>
+        <Divider sx={{ mb: 2, mt: 1 }} />
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          {LIGHT_LEVELS.map((level) => (
+            <Box key={level} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ width: 12, height: 12, borderRadius: 0.5, backgroundColor: LIGHT_LEVEL_COLORS[level] }} />
+              <Typography variant="body2">
+                {t(`garden.levels.${level}`)} ({t(`garden.hours.${level}`, { value: LIGHT_LEVEL_HOURS[level] })})
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+          {rows.map(({ surface, summaries, levels, suggestions }) => (
+            <Box key={surface.id} sx={{ display: 'flex', flexDirection: 'column', gap: 1, textAlign: 'left' }}>
+              <Typography variant="subtitle2" sx={{ borderLeft: 4, borderColor: surface.color, pl: 1 }}>
+                {getSurfaceLabel(surface, azm, t)}
+              </Typography>
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(12, 1fr)', gap: 0.5 }}>
+                {levels.map((level, month) => (
+                  <Tooltip
+                    key={monthNames[month]}
+                    title={`${monthNames[month]}: ${t(`garden.levels.${level}`)} · ${t('monthly.directSunHours', {
+                      value: summaries[month].directSunHours.toFixed(1),
+                    })}`}
+                  >
+                    <Box
+                      sx={{
+                        height: 24,
+                        borderRadius: 0.5,
+                        backgroundColor: LIGHT_LEVEL_COLORS[level],
+                        color: level === 'fullSun' || level === 'partialSun' ? 'black' : 'white',
+                        fontSize: '0.7rem',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {monthNames[month].charAt(0).toUpperCase()}
+                    </Box>
+                  </Tooltip>
+                ))}
+              </Box>
+              {suggestions.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  {t('garden.none')}
+                </Typography>
+              ) : (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {suggestions.map(({ plant, matchingMonths, seasonMonths }) => (
+                    <Tooltip
+                      key={plant.id}
+                      title={`${t(`garden.categories.${plant.category}`)} · ${t(`${plant.id}.notes`, {
+                        ns: 'plants',
+                      })}`}
+                    >
+                      <Chip
+                        size="small"
+                        variant={matchingMonths === seasonMonths ? 'filled' : 'outlined'}
+                        label={
+                          matchingMonths === seasonMonths
+                            ? t(`${plant.id}.name`, { ns: 'plants' })
+                            : `${t(`${plant.id}.name`, { ns: 'plants' })} · ${t('garden.fit', {
+                                count: matchingMonths,
+                                total: seasonMonths,
+                              })}`
+                        }
+                      />
+                    </Tooltip>
+                  ))}
+                </Box>
+              )}
+            </Box>
+          ))}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'left', mt: 2 }}>
+          {t('garden.helper')} {clearSkyIndex && t('weather.climatologyApplied')}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlantSuggestions;
@@ -0,0 +1,285 @@
+import {
+  Box,
+  Card,
+  CardContent,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  type CloudCover,
+  calculateIntensitySeries,
+  calculatePvSeries,
+  formatTime,
+  getCompassPoint,
+  getPeakPower,
+  getSideAzimuth,
+  getSunshineFraction,
+  getSurfaceAltitude,
+  getSurfaceBearing,
+  type HorizonProfile,
+  integratePvEnergy,
+  normalizeBearing,
+  type PvSystem,
+  parsePvSystem,
+  type SunPositionData,
+  sampleRepresentativeDays,
+  summarizePvMonths,
+} from '../solar';
+
+const AC_COLOR = '#FFB300';
+const CLIPPED_COLOR = '#EF5350';
+const LIMIT_COLOR = 'rgba(255, 255, 255, 0.5)';
+const CURVE_WIDTH = 600;
+const CURVE_HEIGHT = 160;
+
+// Inputs in the units people read on datasheets, stored as fractions where the model wants them
+const FIELDS: Array<{ field: keyof PvSystem; scale: number; step: number }> = [
+  { field: 'panelCount', scale: 1, step: 1 },
+  { field: 'panelArea', scale: 1, step: 0.05 },
+  { field: 'efficiency', scale: 100, step: 0.5 },
+  { field: 'tilt', scale: 1, step: 5 },
+  { field: 'azimuth', scale: 1, step: 5 },
+  { field: 'inverterLimit', scale: 1, step: 50 },
+  { field: 'temperatureDerating', scale: 100, step: 1 },
+];
+
+interface PvEstimatorProps {
+  sunPositionData: SunPositionData[];
+  year: number;
+  lat: number;
+  lon: number;
+  azm: number;
+  timeZone: string;
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  system: PvSystem;
+  onSystemChange: (value: PvSystem) => void;
+  cloudCover?: CloudCover; // forecast for the displayed day, when available
+  clearSkyIndex?: number[]; // typical cloudiness of each month, clear sky when missing
+}
+
+const kWh = (wattHours: number) => (wattHours / 1000).toFixed(2);
+
+const PvEstimator: React.FC<PvEstimatorProps> = ({
+  sunPositionData,
+  year,
+  lat,
+  lon,
+  azm,
+  timeZone,
+  horizon,
+  albedo,
+  atmosphere,
+  system,
+  onSystemChange,
+  cloudCover,
+  clearSkyIndex,
+}) => {
+  const { t, i18n } = useTranslation();
+  const sideAzimuth = getSideAzimuth(system, azm);
+  const surfaceAltitude = getSurfaceAltitude(system);
+
+  const series = useMemo(
+    () =>
+      calculatePvSeries(
+        calculateIntensitySeries(sunPositionData, sideAzimuth, surfaceAltitude, {
+          horizon,
+          albedo,
+          cloudCover,
+          atmosphere,
+          timeZone,
+        }),
+        system,
+      ),
+    [sunPositionData, sideAzimuth, surfaceAltitude, horizon, albedo, cloudCover, atmosphere, timeZone, system],
+  );
+  const daily = useMemo(() => integratePvEnergy(series), [series]);
+
+  const monthlySamples = useMemo(() => sampleRepresentativeDays(year, lat, lon, timeZone), [year, lat, lon, timeZone]);
+  const monthly = useMemo(
+    () =>
+      summarizePvMonths(year, monthlySamples, sideAzimuth, surfaceAltitude, system, {
+        horizon,
+        albedo,
+        atmosphere,
+        timeZone,
+      }).map((summary) =>
+        // Clipping only happens in full sun, so it shrinks with the sunshine rather than with the irradiation
+        clearSkyIndex
+          ? {
+              ...summary,
+              energy: summary.energy * clearSkyIndex[summary.month],
+              clipped: summary.clipped * getSunshineFraction(clearSkyIndex[summary.month]),
+            }
+          : summary,
+      ),
+    [year, monthlySamples, sideAzimuth, surfaceAltitude, system, horizon, albedo, atmosphere, timeZone, clearSkyIndex],
+  );
+  const annual = monthly.reduce(
+    (totals, month) => ({ energy: totals.energy + month.energy, clipped: totals.clipped + month.clipped }),
+    { energy: 0, clipped: 0 },
+  );
+
+  // Power curve, scaled so that both the panels' output and the inverter limit fit
+  const curve = useMemo(() => {
+    const maxPower = Math.max(system.inverterLimit, ...series.map(({ dc }) => dc)) * 1.05;
+    const x = (index: number) => (index / Math.max(1, series.length - 1)) * CURVE_WIDTH;
+    const y = (power: number) => CURVE_HEIGHT - (power / maxPower) * CURVE_HEIGHT;
+    const line = (power: (index: number) => number) => series.map((_, index) => `${x(index)},${y(power(index))}`);
+    const ac = line((index) => series[index].ac);
+    const dc = line((index) => series[index].dc);
+    return {
+      acArea: `M0,${CURVE_HEIGHT} L${ac.join(' L')} L${CURVE_WIDTH},${CURVE_HEIGHT} Z`,
+      clippedArea: `M${dc.join(' L')} L${[...ac].reverse().join(' L')} Z`,
+      limit: y(system.inverterLimit),
+    };
+  }, [series, system.inverterLimit]);
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => series[Math.round(fraction * (series.length - 1))]);
+  const peak = series.reduce((max, sample) => Math.max(max, sample.ac), 0);
+  const bearing = getSurfaceBearing(system, azm);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {t('pv.title')}
+        </Typography>
+        <Divider sx={{ mb: 3, mt: 1 }} />
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: 2 }}>
+          {FIELDS.map(({ field, scale, step }) => (
+            <TextField
+              key={field}
+              size="small"
+              type="number"
+              label={t(`pv.fields.${field}`)}
+              value={Number((system[field] * scale).toFixed(4))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) / scale;
+                const parsed = parsePvSystem({ ...system, [field]: value });
+                if (parsed) onSystemChange({ ...parsed, azimuth: normalizeBearing(parsed.azimuth) });
+              }}
+              slotProps={{ htmlInput: { step } }}
+            />
+          ))}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'left', mt: 1 }}>
+          {t('pv.orientation', {
+            direction: t(`compass.${getCompassPoint(bearing)}`),
+            bearing: Math.round(bearing),
+            peak: Math.round(getPeakPower(system)),
+          })}
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, my: 2, textAlign: 'left' }}>
+          {[
+            [t('pv.daily'), `${kWh(daily.energy)} kWh`],
+            [t('pv.dailyClipped'), `${kWh(daily.clipped)} kWh`],
+            [t('pv.peak'), `${Math.round(peak)} W`],
+            [t('pv.annual'), `${Math.round(annual.energy / 1000)} kWh`],
+            [t('pv.annualClipped'), `${Math.round(annual.clipped / 1000)} kWh`],
+          ].map(([label, value]) => (
+            <Box key={label}>
+              <Typography variant="caption" color="text.secondary">
+                {label}
+              </Typography>
+              <Typography variant="h6">{value}</Typography>
+            </Box>
+          ))}
+        </Box>
+
+        {series.length > 0 && (
+          <Box>
+            <Box
+              component="svg"
+              viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+              preserveAspectRatio="none"
+              role="img"
+              aria-label={t('pv.curve')}
+              sx={{
+                width: '100%',
+                height: CURVE_HEIGHT,
+                display: 'block',
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+              }}
+            >
+              <path d={curve.clippedArea} fill={CLIPPED_COLOR} />
+              <path d={curve.acArea} fill={AC_COLOR} />
+              <line
+                x1={0}
+                x2={CURVE_WIDTH}
+                y1={curve.limit}
+                y2={curve.limit}
+                stroke={LIMIT_COLOR}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+              {ticks.map((sample) => (
+                <Typography key={sample.time.getTime()} variant="caption" color="text.secondary">
+                  {formatTime(sample.time, timeZone)}
+                </Typography>
+              ))}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center', mt: 1 }}>
+              {[
+                [AC_COLOR, t('pv.legend.ac')],
+                [CLIPPED_COLOR, t('pv.legend.clipped')],
+                [LIMIT_COLOR, t('pv.legend.limit', { value: system.inverterLimit })],
+              ].map(([color, label]) => (
+                <Box key={label} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ width: 12, height: 12, borderRadius: 0.5, backgroundColor: color }} />
+                  <Typography variant="body2">{label}</Typography>
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        <TableContainer sx={{ mt: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('pv.month')}</TableCell>
+                <TableCell align="right">{t('pv.energy')}</TableCell>
+                <TableCell align="right">{t('pv.clipped')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {monthly.map(({ month, energy, clipped }) => (
+                <TableRow key={month}>
+                  <TableCell component="th" scope="row">
+                    {new Date(Date.UTC(year, month, 1)).toLocaleDateString(i18n.language, {
+                      month: 'long',
+                      timeZone: 'UTC',
+                    })}
+                  </TableCell>
+                  <TableCell align="right">{(energy / 1000).toFixed(1)}</TableCell>
+                  <TableCell align="right">{(clipped / 1000).toFixed(1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'left', mt: 2 }}>
+          {clearSkyIndex ? t('pv.helperWeather') : t('pv.helper')}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PvEstimator;
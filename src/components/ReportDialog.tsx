@@ -0,0 +1,240 @@
+import PrintIcon from '@mui/icons-material/Print';
+import {
+  Alert,
+  Box,
+  Button,
+  ButtonGroup,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { renderChartSvg } from '../export/chartSvg';
+import { downloadFile } from '../export/download';
+import { svgToDataUrl, svgToPng } from '../export/image';
+import { renderMapSvg } from '../export/mapSvg';
+import { buildReportHtml, printReport } from '../export/report';
+import {
+  type Atmosphere,
+  calculateIntensitySeries,
+  formatOffset,
+  formatTime,
+  getDaylightRays,
+  getSeriesBounds,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  getTimeZoneOffset,
+  type HorizonProfile,
+  type IrradianceComponent,
+  integrateDailyExposure,
+  SOLAR_CONSTANT,
+  type SunPositionData,
+  type Surface,
+  sumComponents,
+} from '../solar';
+import { COMPONENT_COLORS } from './SunIntensityBar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface ReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  sunPositionData: SunPositionData[];
+  sunTimes: { sunrise: Date; sunset: Date } | null;
+  lat: number;
+  lon: number;
+  azm: number;
+  date: string;
+  timeZone: string;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  components: IrradianceComponent[];
+}
+
+type Image = { svg: string; width: number; height: number };
+
+const ReportDialog: React.FC<ReportDialogProps> = ({
+  open,
+  onClose,
+  sunPositionData,
+  sunTimes,
+  lat,
+  lon,
+  azm,
+  date,
+  timeZone,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  components,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () =>
+      surfaces.map((surface) => {
+        const samples = calculateIntensitySeries(
+          sunPositionData,
+          getSideAzimuth(surface, azm),
+          getSurfaceAltitude(surface),
+          {
+            horizon,
+            balcony: surface.balcony,
+            albedo,
+            atmosphere,
+            timeZone,
+          },
+        );
+        return {
+          label: getSurfaceLabel(surface, azm, t),
+          color: surface.color,
+          samples,
+          exposure: integrateDailyExposure(samples, 0, components),
+          peak: samples.reduce((max, sample) => Math.max(max, sumComponents(sample, components)), 0) * SOLAR_CONSTANT,
+        };
+      }),
+    [surfaces, sunPositionData, azm, horizon, albedo, atmosphere, timeZone, components, t],
+  );
+
+  const chart = useMemo(() => {
+    const { start, end } = getSeriesBounds(sunPositionData);
+    return renderChartSvg({
+      title: `${t('chart.title')} · ${date}`,
+      rows: rows.map(({ label, color, samples, exposure }) => ({
+        label,
+        color,
+        samples,
+        summary: [
+          t('chart.exposure.irradiation', { value: (exposure.irradiation / 1000).toFixed(2) }),
+          t('chart.exposure.directSunHours', { value: exposure.directSunHours.toFixed(1) }),
+        ],
+      })),
+      components,
+      componentColors: COMPONENT_COLORS,
+      dayStart: start,
+      dayEnd: end,
+      sunTimes,
+      timeZone,
+    });
+  }, [rows, sunPositionData, sunTimes, components, date, timeZone, t]);
+
+  const map = useMemo(
+    () =>
+      renderMapSvg({
+        azm,
+        surfaces,
+        rays: getDaylightRays(date, lat, lon, timeZone),
+        timeZone,
+        compassLabels: [
+          t('export.report.compass.n'),
+          t('export.report.compass.e'),
+          t('export.report.compass.s'),
+          t('export.report.compass.w'),
+        ],
+      }),
+    [azm, surfaces, date, lat, lon, timeZone, t],
+  );
+
+  const downloadSvg = (name: string, { svg }: Image) =>
+    downloadFile(`balcon-${name}-${date}.svg`, svg, 'image/svg+xml');
+
+  const downloadPng = async (name: string, { svg, width, height }: Image) => {
+    try {
+      downloadFile(`balcon-${name}-${date}.png`, await svgToPng(svg, width, height), 'image/png');
+    } catch {
+      setError(t('export.report.pngFailed'));
+    }
+  };
+
+  const handlePrint = () => {
+    const formatEvent = (time: Date | undefined) =>
+      time && !Number.isNaN(time.getTime()) ? formatTime(time, timeZone) : '—';
+    const html = buildReportHtml({
+      lang: i18n.language,
+      title: t('export.report.heading', { date }),
+      details: [
+        [t('settings.latitude'), lat.toFixed(5)],
+        [t('settings.longitude'), lon.toFixed(5)],
+        [t('settings.orientation'), `${azm}°`],
+        [t('settings.date'), date],
+        [
+          t('export.report.timeZone'),
+          `${timeZone} (${formatOffset(getTimeZoneOffset(sunPositionData[Math.floor(sunPositionData.length / 2)].time, timeZone))})`,
+        ],
+        [t('export.report.sunrise'), formatEvent(sunTimes?.sunrise)],
+        [t('export.report.sunset'), formatEvent(sunTimes?.sunset)],
+        [t('settings.albedo'), albedo.toFixed(2)],
+        [t('atmosphere.elevation'), `${atmosphere.elevation} m`],
+        [t('atmosphere.turbidity'), atmosphere.turbidity.map((value) => value.toFixed(1)).join(' · ')],
+        [t('chart.components.label'), components.map((component) => t(`chart.components.${component}`)).join(', ')],
+      ],
+      table: {
+        headers: [
+          t('export.report.surface'),
+          t('export.report.irradiation'),
+          t('export.report.directSunHours'),
+          t('export.report.peak'),
+        ],
+        rows: rows.map(({ label, exposure, peak }) => [
+          label,
+          (exposure.irradiation / 1000).toFixed(2),
+          exposure.directSunHours.toFixed(1),
+          peak.toFixed(0),
+        ]),
+      },
+      images: [
+        { caption: t('chart.title'), svg: chart.svg },
+        { caption: t('export.report.mapCaption'), svg: map.svg },
+      ],
+    });
+    if (!printReport(html)) setError(t('export.report.popupBlocked'));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('export.report.title')}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {error && (
+          <Alert severity="warning" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {[
+          { name: 'chart', caption: t('chart.title'), image: chart },
+          { name: 'map', caption: t('export.report.mapCaption'), image: map },
+        ].map(({ name, caption, image }) => (
+          <Box key={name} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+              <Typography variant="subtitle2">{caption}</Typography>
+              <ButtonGroup size="small" variant="outlined">
+                <Button onClick={() => downloadSvg(name, image)}>SVG</Button>
+                <Button onClick={() => downloadPng(name, image)}>PNG</Button>
+              </ButtonGroup>
+            </Box>
+            <Box
+              component="img"
+              src={svgToDataUrl(image.svg)}
+              alt={caption}
+              sx={{ maxWidth: '100%', maxHeight: name === 'map' ? 320 : 'none', alignSelf: 'center', borderRadius: 1 }}
+            />
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('export.close')}</Button>
+        <Button variant="contained" startIcon={<PrintIcon />} onClick={handlePrint}>
+          {t('export.report.print')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
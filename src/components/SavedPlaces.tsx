@@ -0,0 +1,213 @@
+import DeleteIcon from '@mui/icons-material/Delete';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import SaveIcon from '@mui/icons-material/Save';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { downloadFile } from '../export/download';
+import {
+  createPlaceId,
+  exportPlaces,
+  importPlaces,
+  loadPlaces,
+  mergePlaces,
+  type PlaceSettings,
+  type SavedPlace,
+  storePlaces,
+} from '../places';
+
+interface SavedPlacesProps {
+  current: PlaceSettings;
+  onLoad: (place: SavedPlace) => void;
+}
+
+// Place being saved: a new one, or an existing one to overwrite with the current settings
+type Draft = { id: string | null; name: string; notes: string };
+
+const SavedPlaces: React.FC<SavedPlacesProps> = ({ current, onLoad }) => {
+  const { t } = useTranslation();
+  const [places, setPlaces] = useState<SavedPlace[]>(loadPlaces);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!storePlaces(places)) setMessage({ severity: 'error', text: t('places.storageFailed') });
+  }, [places, t]);
+
+  const handleSave = () => {
+    if (!draft) return;
+    const place: SavedPlace = {
+      ...current,
+      id: draft.id ?? createPlaceId(),
+      name: draft.name.trim() || t('places.untitled'),
+      notes: draft.notes,
+      savedAt: new Date().toISOString(),
+    };
+    setPlaces(draft.id ? places.map((saved) => (saved.id === draft.id ? place : saved)) : [...places, place]);
+    setActiveId(place.id);
+    setDraft(null);
+  };
+
+  const handleLoad = (place: SavedPlace) => {
+    setActiveId(place.id);
+    onLoad(place);
+  };
+
+  const handleDelete = (id: string) => {
+    setPlaces(places.filter((place) => place.id !== id));
+    if (activeId === id) setActiveId(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // allow importing the same file again
+    if (!file) return;
+    const imported = importPlaces(await file.text());
+    if (imported) {
+      setPlaces(mergePlaces(places, imported));
+      setMessage({ severity: 'success', text: t('places.imported', { count: imported.length }) });
+    } else {
+      setMessage({ severity: 'error', text: t('places.importFailed') });
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6">{t('places.title')}</Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="contained"
+              startIcon={<SaveIcon />}
+              onClick={() => setDraft({ id: null, name: '', notes: '' })}
+            >
+              {t('places.save')}
+            </Button>
+            <Tooltip title={t('places.import')}>
+              <IconButton onClick={() => fileInputRef.current?.click()} aria-label={t('places.import')}>
+                <FileUploadIcon />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={t('places.export')}>
+              <span>
+                <IconButton
+                  onClick={() => downloadFile('balcon-places.json', exportPlaces(places), 'application/json')}
+                  disabled={places.length === 0}
+                  aria-label={t('places.export')}
+                >
+                  <FileDownloadIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          </Box>
+        </Box>
+        <Divider sx={{ mb: 2, mt: 1 }} />
+        {message && (
+          <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 2 }}>
+            {message.text}
+          </Alert>
+        )}
+        {places.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('places.empty')}
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {places.map((place) => (
+              <ListItem
+                key={place.id}
+                disablePadding
+                secondaryAction={
+                  <Box sx={{ display: 'flex' }}>
+                    <Tooltip title={t('places.update')}>
+                      <IconButton
+                        onClick={() => setDraft({ id: place.id, name: place.name, notes: place.notes })}
+                        aria-label={t('places.update')}
+                      >
+                        <SaveIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('places.delete')}>
+                      <IconButton onClick={() => handleDelete(place.id)} aria-label={t('places.delete')}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemButton selected={place.id === activeId} onClick={() => handleLoad(place)} sx={{ pr: 12 }}>
+                  <ListItemText
+                    primary={place.name}
+                    secondary={[
+                      `${place.lat.toFixed(4)}, ${place.lon.toFixed(4)} · ${place.azm}°`,
+                      t('places.surfaceCount', { count: place.surfaces.length }),
+                      place.notes,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+      <Dialog open={draft !== null} onClose={() => setDraft(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{draft?.id ? t('places.update') : t('places.save')}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            {t('places.saveHelper')}
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label={t('places.name')}
+            value={draft?.name ?? ''}
+            onChange={(e) => draft && setDraft({ ...draft, name: e.target.value })}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label={t('places.notes')}
+            value={draft?.notes ?? ''}
+            onChange={(e) => draft && setDraft({ ...draft, notes: e.target.value })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDraft(null)}>{t('export.cancel')}</Button>
+          <Button variant="contained" onClick={handleSave}>
+            {t('places.confirm')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SavedPlaces;
@@ -0,0 +1,133 @@
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import {
+  Alert,
+  Box,
+  Button,
+  ButtonGroup,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import QRCode from 'qrcode';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { downloadFile } from '../export/download';
+import { svgToDataUrl, svgToPng } from '../export/image';
+import { buildShareUrl, buildShortShareUrl, type UrlState } from '../share';
+
+interface ShareDialogProps {
+  open: boolean;
+  onClose: () => void;
+  state: UrlState;
+}
+
+const QR_SIZE = 256;
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ open, onClose, state }) => {
+  const { t } = useTranslation();
+  const [includeView, setIncludeView] = useState(true);
+  const [qrCode, setQrCode] = useState<string | null>(); // null when the link does not fit in a code
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [url, setUrl] = useState('');
+
+  // Browsers without compression streams get the full link
+  useEffect(() => {
+    let cancelled = false;
+    buildShortShareUrl(state, includeView)
+      .catch(() => buildShareUrl(state, includeView))
+      .then((value) => !cancelled && setUrl(value));
+    return () => {
+      cancelled = true;
+    };
+  }, [state, includeView]);
+
+  // The code is drawn in the browser, the link never leaves the device
+  useEffect(() => {
+    let cancelled = false;
+    setCopied(false);
+    if (!url) return;
+    QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'M', margin: 2, width: QR_SIZE })
+      .then((svg) => !cancelled && setQrCode(svg))
+      .catch(() => !cancelled && setQrCode(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError(t('share.copyFailed'));
+    }
+  };
+
+  const downloadPng = async (svg: string) => {
+    try {
+      downloadFile(`balcon-qr-${state.date}.png`, await svgToPng(svg, QR_SIZE, QR_SIZE), 'image/png');
+    } catch {
+      setError(t('export.report.pngFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('share.title')}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {error && (
+          <Alert severity="warning" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          fullWidth
+          size="small"
+          label={t('share.link')}
+          value={url}
+          onFocus={(e) => e.target.select()}
+          slotProps={{ htmlInput: { readOnly: true } }}
+          sx={{ mt: 1 }}
+        />
+        <FormControlLabel
+          control={<Switch checked={includeView} onChange={(e) => setIncludeView(e.target.checked)} />}
+          label={t('share.includeView')}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ mt: -2 }}>
+          {t('share.includeViewHelper')}
+        </Typography>
+        {qrCode === null && <Alert severity="info">{t('share.tooLong')}</Alert>}
+        {qrCode && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1 }}>
+            <Box
+              component="img"
+              src={svgToDataUrl(qrCode)}
+              alt={t('share.qrCode')}
+              sx={{ width: QR_SIZE, height: QR_SIZE, borderRadius: 1 }}
+            />
+            <ButtonGroup size="small" variant="outlined">
+              <Button onClick={() => downloadFile(`balcon-qr-${state.date}.svg`, qrCode, 'image/svg+xml')}>SVG</Button>
+              <Button onClick={() => downloadPng(qrCode)}>PNG</Button>
+            </ButtonGroup>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('export.close')}</Button>
+        <Button variant="contained" startIcon={<ContentCopyIcon />} onClick={handleCopy} disabled={!url}>
+          {copied ? t('share.copied') : t('share.copy')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,175 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  InputAdornment,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type React from 'react';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { downloadFile } from '../export/download';
+import { buildICalendar } from '../export/ical';
+import { buildSunCalendarEvents } from '../export/sunCalendar';
+import { getDayRange, MAX_EXPORT_DAYS } from '../export/sunData';
+import {
+  type Atmosphere,
+  addDays,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  type Surface,
+} from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface SunCalendarDialogProps {
+  open: boolean;
+  onClose: () => void;
+  lat: number;
+  lon: number;
+  azm: number;
+  date: string;
+  timeZone: string;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+}
+
+const DEFAULT_THRESHOLD = 120; // W/m², the WMO threshold for bright sunshine
+const DEFAULT_DAYS = 7;
+
+const SunCalendarDialog: React.FC<SunCalendarDialogProps> = ({
+  open,
+  onClose,
+  lat,
+  lon,
+  azm,
+  date,
+  timeZone,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+}) => {
+  const { t } = useTranslation();
+  const [surfaceId, setSurfaceId] = useState(surfaces[0]?.id ?? '');
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [from, setFrom] = useState(date);
+  const [to, setTo] = useState(() => addDays(date, DEFAULT_DAYS - 1));
+  const [includeSunEvents, setIncludeSunEvents] = useState(false);
+
+  const surface = surfaces.find(({ id }) => id === surfaceId);
+  const dayCount = getDayRange(from, to).length;
+
+  const handleDownload = () => {
+    if (!surface) return;
+    const label = getSurfaceLabel(surface, azm, t);
+    const events = buildSunCalendarEvents({
+      from,
+      to,
+      lat,
+      lon,
+      timeZone,
+      surface: {
+        index: surfaces.indexOf(surface),
+        label,
+        sideAzimuth: getSideAzimuth(surface, azm),
+        surfaceAltitude: getSurfaceAltitude(surface),
+        options: { horizon, balcony: surface.balcony, albedo, atmosphere, timeZone },
+      },
+      threshold,
+      includeSunEvents,
+      summaries: {
+        window: t('export.calendar.window', { surface: label }),
+        sunrise: t('export.report.sunrise'),
+        sunset: t('export.report.sunset'),
+      },
+      description: t('export.calendar.description', {
+        surface: label,
+        threshold,
+        lat: lat.toFixed(5),
+        lon: lon.toFixed(5),
+      }),
+    });
+    const name = t('export.calendar.name', { surface: label });
+    downloadFile(`balcon-${from}_${to}.ics`, buildICalendar(name, events), 'text/calendar;charset=utf-8');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('export.calendar.title')}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <TextField
+          select
+          fullWidth
+          label={t('export.calendar.surface')}
+          value={surfaceId}
+          onChange={(e) => setSurfaceId(e.target.value)}
+          sx={{ mt: 1 }}
+        >
+          {surfaces.map((option) => (
+            <MenuItem key={option.id} value={option.id}>
+              {getSurfaceLabel(option, azm, t)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          fullWidth
+          type="number"
+          label={t('export.calendar.threshold')}
+          helperText={t('export.calendar.thresholdHelper')}
+          value={threshold}
+          onChange={(e) => setThreshold(Math.max(0, Number(e.target.value)))}
+          slotProps={{
+            htmlInput: { min: 0, step: 10 },
+            input: { endAdornment: <InputAdornment position="end">W/m²</InputAdornment> },
+          }}
+        />
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            fullWidth
+            label={t('export.data.from')}
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            fullWidth
+            label={t('export.data.to')}
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Box>
+        <FormControlLabel
+          control={<Checkbox checked={includeSunEvents} onChange={(e) => setIncludeSunEvents(e.target.checked)} />}
+          label={t('export.calendar.includeSunEvents')}
+        />
+        <Typography variant="caption" color={dayCount === 0 ? 'error' : 'text.secondary'}>
+          {dayCount === 0
+            ? t('export.data.invalidRange', { max: MAX_EXPORT_DAYS })
+            : t('export.calendar.helper', { days: dayCount })}
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('export.cancel')}</Button>
+        <Button variant="contained" onClick={handleDownload} disabled={dayCount === 0 || !surface}>
+          {t('export.download')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SunCalendarDialog;
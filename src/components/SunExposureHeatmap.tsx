@@ -0,0 +1,300 @@
+import { Box, Card, CardContent, Divider, Typography } from '@mui/material';
+import type React from 'react';
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  calculateYearlyIntensity,
+  formatDayParts,
+  formatTime,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  parseDay,
+  type Surface,
+  sampleYear,
+  zonedTimeToDate,
+} from '../solar';
+import { LABEL_WIDTH, ROW_GAP } from './chartLayout';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface SunExposureHeatmapProps {
+  year: number;
+  lat: number;
+  lon: number;
+  azm: number;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  timeZone: string;
+  onSelect: (day: string, time: Date) => void;
+}
+
+const INTERVAL_MINUTES = 30;
+const ROW_HEIGHT = 96; // px
+const BACKGROUND = [16, 23, 37]; // paper background
+const HOUR_LABELS = [0, 6, 12, 18, 24];
+const MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+const parseHexColor = (color: string): number[] => {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) || 0);
+};
+
+interface HeatmapRowProps {
+  grid: Float32Array;
+  days: number;
+  slots: number;
+  scale: number;
+  color: string;
+  label: string;
+  onHover: (dayIndex: number, slot: number) => void;
+  onLeave: () => void;
+  onSelect: (dayIndex: number, slot: number) => void;
+}
+
+const HeatmapRow: React.FC<HeatmapRowProps> = ({
+  grid,
+  days,
+  slots,
+  scale,
+  color,
+  label,
+  onHover,
+  onLeave,
+  onSelect,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastCellRef = useRef<number | null>(null);
+
+  // Days run along x, time of day runs down y
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const image = context.createImageData(days, slots);
+    const rgb = parseHexColor(color);
+    for (let day = 0; day < days; day++) {
+      for (let slot = 0; slot < slots; slot++) {
+        const value = scale > 0 ? Math.min(1, grid[day * slots + slot] / scale) : 0;
+        const offset = (slot * days + day) * 4;
+        for (let channel = 0; channel < 3; channel++) {
+          image.data[offset + channel] = BACKGROUND[channel] + (rgb[channel] - BACKGROUND[channel]) * value;
+        }
+        image.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [grid, days, slots, scale, color]);
+
+  const getCell = (event: React.MouseEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const dayIndex = Math.min(days - 1, Math.max(0, Math.floor(((event.clientX - rect.left) / rect.width) * days)));
+    const slot = Math.min(slots - 1, Math.max(0, Math.floor(((event.clientY - rect.top) / rect.height) * slots)));
+    return [dayIndex, slot];
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const [dayIndex, slot] = getCell(event);
+
+    // Only report cell changes
+    const cell = dayIndex * slots + slot;
+    if (lastCellRef.current === cell) return;
+    lastCellRef.current = cell;
+    onHover(dayIndex, slot);
+  };
+
+  const handleMouseLeave = () => {
+    lastCellRef.current = null;
+    onLeave();
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'stretch', gap: 1 }}>
+      <Typography
+        variant="body2"
+        title={label}
+        noWrap
+        sx={{
+          width: LABEL_WIDTH,
+          flexShrink: 0,
+          alignSelf: 'center',
+          fontSize: '0.75rem',
+          color: 'white',
+          fontWeight: 'bold',
+          backgroundColor: color,
+          borderRadius: 0.5,
+          textAlign: 'center',
+          py: 0.25,
+          px: 0.5,
+          textShadow: '0px 0px 2px rgba(0,0,0,1), 0px 0px 4px rgba(0,0,0,1)',
+        }}
+      >
+        {label}
+      </Typography>
+      <Box sx={{ position: 'relative', width: 24, flexShrink: 0 }}>
+        {HOUR_LABELS.map((hour) => (
+          <Typography
+            key={hour}
+            variant="caption"
+            sx={{
+              position: 'absolute',
+              right: 0,
+              top: `${(hour / 24) * 100}%`,
+              transform: 'translateY(-50%)',
+              fontSize: '0.65rem',
+              lineHeight: 1,
+              color: 'text.secondary',
+            }}
+          >
+            {hour.toString().padStart(2, '0')}
+          </Typography>
+        ))}
+      </Box>
+      <canvas
+        ref={canvasRef}
+        width={days}
+        height={slots}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+        onClick={(event) => onSelect(...getCell(event))}
+        style={{
+          flex: 1,
+          minWidth: 0,
+          height: ROW_HEIGHT,
+          imageRendering: 'pixelated',
+          borderRadius: 4,
+          cursor: 'crosshair',
+        }}
+      />
+    </Box>
+  );
+};
+
+const SunExposureHeatmap: React.FC<SunExposureHeatmapProps> = ({
+  year,
+  lat,
+  lon,
+  azm,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  timeZone,
+  onSelect,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [preview, setPreview] = useState<{ day: string; time: Date } | null>(null);
+
+  // A year of samples takes a while, so dragging the location or a surface keeps the last grid until it settles
+  const deferredYear = useDeferredValue(year);
+  const deferredLat = useDeferredValue(lat);
+  const deferredLon = useDeferredValue(lon);
+  const deferredTimeZone = useDeferredValue(timeZone);
+  const deferredSurfaces = useDeferredValue(surfaces);
+  const deferredHorizon = useDeferredValue(horizon);
+
+  const yearly = useMemo(
+    () => sampleYear(deferredYear, deferredLat, deferredLon, deferredTimeZone, INTERVAL_MINUTES),
+    [deferredYear, deferredLat, deferredLon, deferredTimeZone],
+  );
+
+  const grids = useMemo(
+    () =>
+      deferredSurfaces.map((surface) =>
+        calculateYearlyIntensity(yearly, getSideAzimuth(surface, azm), getSurfaceAltitude(surface), {
+          horizon: deferredHorizon,
+          balcony: surface.balcony,
+          albedo,
+          atmosphere,
+          timeZone: deferredTimeZone,
+        }),
+      ),
+    [yearly, deferredSurfaces, azm, deferredHorizon, albedo, atmosphere, deferredTimeZone],
+  );
+
+  // Shared colour scale, so surfaces can be compared with each other
+  const scale = useMemo(() => grids.reduce((max, grid) => grid.reduce((m, v) => Math.max(m, v), max), 0), [grids]);
+
+  const monthTicks = useMemo(
+    () =>
+      MONTHS.map((month) => ({
+        month,
+        left: (yearly.days.indexOf(formatDayParts({ year: deferredYear, month, day: 1 })) / yearly.days.length) * 100,
+        label: new Date(Date.UTC(deferredYear, month - 1, 1)).toLocaleDateString(i18n.language, {
+          month: 'short',
+          timeZone: 'UTC',
+        }),
+      })),
+    [deferredYear, yearly, i18n.language],
+  );
+
+  const getCellTime = (dayIndex: number, slot: number): { day: string; time: Date } => {
+    const day = yearly.days[dayIndex];
+    const minutes = slot * INTERVAL_MINUTES + INTERVAL_MINUTES / 2;
+    return {
+      day,
+      time: zonedTimeToDate(
+        { ...parseDay(day), hour: Math.floor(minutes / 60), minute: minutes % 60 },
+        deferredTimeZone,
+      ),
+    };
+  };
+
+  const handleSelect = (dayIndex: number, slot: number) => {
+    const { day, time } = getCellTime(dayIndex, slot);
+    onSelect(day, time);
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            {t('heatmap.title', { year })}
+          </Typography>
+          {/* Hovered cell, only a preview until clicked */}
+          {preview && (
+            <Typography variant="body2" color="text.secondary" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+              {preview.day} {formatTime(preview.time, deferredTimeZone)}
+            </Typography>
+          )}
+        </Box>
+        <Divider sx={{ mb: 3, mt: 1 }} />
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {deferredSurfaces.map((surface, index) => (
+            <HeatmapRow
+              key={surface.id}
+              grid={grids[index]}
+              days={yearly.days.length}
+              slots={yearly.slotsPerDay}
+              scale={scale}
+              color={surface.color}
+              label={getSurfaceLabel(surface, azm, t)}
+              onHover={(dayIndex, slot) => setPreview(getCellTime(dayIndex, slot))}
+              onLeave={() => setPreview(null)}
+              onSelect={handleSelect}
+            />
+          ))}
+          {/* Month labels */}
+          <Box sx={{ position: 'relative', height: 20, ml: `${LABEL_WIDTH + ROW_GAP + 24 + ROW_GAP}px` }}>
+            {monthTicks.map((tick) => (
+              <Typography
+                key={tick.month}
+                variant="caption"
+                sx={{ position: 'absolute', left: `${tick.left}%`, color: 'text.secondary' }}
+              >
+                {tick.label}
+              </Typography>
+            ))}
+          </Box>
+          <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'left' }}>
+            {t('heatmap.helper')}
+          </Typography>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SunExposureHeatmap;
@@ -1,49 +1,114 @@
 import { Box } from '@mui/material';
 import type React from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatTime, getZonedParts, type MoonEventTime, type SunEventTime, zonedTimeToDate } from '../solar';
+import { SUN_EVENT_COLORS } from './chartColors';
+import { LABEL_WIDTH, ROW_GAP, SUMMARY_WIDTH } from './chartLayout';
 
 interface SunIntensityAxisProps {
   sunTimes: { sunrise: Date; sunset: Date } | null;
+  dayStart: Date; // instant at the left edge of the bars
+  dayEnd: Date; // instant at the right edge of the bars
+  timeZone: string;
+  sunEvents?: SunEventTime[]; // twilight, blue and golden hour and solar noon, drawn as coloured ticks
+  moonEvents?: MoonEventTime[]; // moonrise and moonset, when the moon layer is shown
   label?: string;
   barHeight?: number; // allow passing bar height for alignment
 }
 
 const TICK_HEIGHT = 20; // px, match intensity bar height
 const HOUR_TICK_WIDTH = '3px';
+const EVENT_TICK_WIDTH = '2px';
 const MINOR_TICK_WIDTH = '1px';
 const SUNRISE_COLOR = '#ff9800';
 const SUNSET_COLOR = '#f57c00';
+const MOON_TICK_COLOR = '#607D8B';
+const EVENT_LABEL_HEIGHT = 14; // px, one row of twilight and golden hour labels under the axis
+const EVENT_LABEL_SPACING = 6; // %, closer labels move to the next row
 
-const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({ sunTimes, barHeight = TICK_HEIGHT }) => {
-  // Helper to get sunrise/sunset positions in minutes
+const QUARTER_HOUR = 15 * 60000; // ms
+
+const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({
+  sunTimes,
+  dayStart,
+  dayEnd,
+  timeZone,
+  sunEvents = [],
+  moonEvents = [],
+  barHeight = TICK_HEIGHT,
+}) => {
+  const { t } = useTranslation();
+
+  // Position along the axis, in percent, by elapsed time so DST transition days stay aligned with the bars
+  const toPercent = (date: Date) =>
+    ((date.getTime() - dayStart.getTime()) / (dayEnd.getTime() - dayStart.getTime())) * 100;
+
+  // Helper to get sunrise/sunset, solar noon and moon positions, skipping events that do not happen (polar day or night)
   const getSpecialTicks = () => {
     if (!sunTimes) return [];
-    return [
-      {
-        key: 'sunrise',
-        minutes: sunTimes.sunrise.getHours() * 60 + sunTimes.sunrise.getMinutes(),
-        color: SUNRISE_COLOR,
-        label: sunTimes.sunrise.toTimeString().slice(0, 5),
-      },
-      {
-        key: 'sunset',
-        minutes: sunTimes.sunset.getHours() * 60 + sunTimes.sunset.getMinutes(),
-        color: SUNSET_COLOR,
-        label: sunTimes.sunset.toTimeString().slice(0, 5),
-      },
+    const ticks: Array<{ key: string; time: Date; color: string; prefix?: string }> = [
+      { key: 'sunrise', time: sunTimes.sunrise, color: SUNRISE_COLOR },
+      { key: 'sunset', time: sunTimes.sunset, color: SUNSET_COLOR },
+      ...sunEvents
+        .filter(({ event }) => event === 'solarNoon')
+        .map(({ time }) => ({ key: 'solarNoon', time, color: SUN_EVENT_COLORS.solarNoon })),
+      ...moonEvents.map(({ event, time }) => ({
+        key: `${event}-${time.getTime()}`,
+        time,
+        color: MOON_TICK_COLOR,
+        prefix: event === 'moonrise' ? '🌙↑ ' : '🌙↓ ',
+      })),
     ];
+    return ticks
+      .filter(({ time }) => !Number.isNaN(time.getTime()))
+      .map(({ key, time, color, prefix = '' }) => ({
+        key,
+        time,
+        left: toPercent(time),
+        color,
+        label: `${prefix}${formatTime(time, timeZone)}`,
+      }));
   };
   const specialTicks = getSpecialTicks();
 
-  // Helper to check if a minute is a special tick
-  const isSpecialTick = (minutes: number) => specialTicks.find((t) => Math.abs(t.minutes - minutes) < 1);
+  // Twilight, blue and golden hour limits, their labels stacked in rows under the axis so close events stay readable
+  const eventRows: number[] = [];
+  const eventTicks = sunEvents
+    .filter(({ event }) => event !== 'sunrise' && event !== 'sunset' && event !== 'solarNoon')
+    .map(({ event, time }) => {
+      const left = toPercent(time);
+      let row = eventRows.findIndex((last) => left - last >= EVENT_LABEL_SPACING);
+      if (row === -1) row = eventRows.length;
+      eventRows[row] = left;
+      return { event, time, left, row };
+    });
+
+  // Helper to check if an instant is a special tick
+  const isSpecialTick = (time: number) => specialTicks.find((t) => Math.abs(t.time.getTime() - time) < 60000);
+
+  // 15m ticks from the start of the day, hour ticks where the local clock shows a full hour
+  const ticks: { time: number; hour: boolean }[] = [];
+  for (let time = dayStart.getTime(); time <= dayEnd.getTime(); time += QUARTER_HOUR) {
+    ticks.push({ time, hour: getZonedParts(new Date(time), timeZone).minute === 0 });
+  }
+
+  // Time labels every 6h of wall clock time
+  const { year, month, day } = getZonedParts(dayStart, timeZone);
+  const labels = [0, 6, 12, 18].map((hour) => ({
+    hour,
+    left: toPercent(zonedTimeToDate({ year, month, day, hour, minute: 0 }, timeZone)),
+  }));
 
   return (
-    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2, mb: `${eventRows.length * EVENT_LABEL_HEIGHT}px` }}
+    >
       {/* Empty space for alignment with intensity bars */}
       <Box
         sx={{
           height: barHeight,
-          width: 40,
+          width: LABEL_WIDTH + ROW_GAP + SUMMARY_WIDTH,
+          flexShrink: 0,
           display: 'flex',
           alignItems: 'center',
         }}
@@ -51,16 +116,14 @@ const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({ sunTimes, barHeight
       <Box sx={{ flex: 1, position: 'relative', height: barHeight }}>
         {/* Ticks */}
         {/* 15m and hour ticks */}
-        {Array.from({ length: 97 }, (_, i) => {
-          const minutes = i * 15;
-          const hour = minutes % 60 === 0;
-          const left = (minutes / (24 * 60)) * 100;
+        {ticks.map(({ time, hour }) => {
+          const left = toPercent(new Date(time));
           // Check for special tick at this position
-          const special = isSpecialTick(minutes);
+          const special = isSpecialTick(time);
           if (special) return null; // We'll render special ticks separately
           return (
             <Box
-              key={`tick-${minutes}`}
+              key={`tick-${time}`}
               sx={{
                 position: 'absolute',
                 left: `${left}%`,
@@ -75,13 +138,52 @@ const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({ sunTimes, barHeight
             />
           );
         })}
-        {/* Special sunrise/sunset ticks */}
+        {/* Twilight and golden hour ticks */}
+        {eventTicks.map((tick) => (
+          <Box
+            key={`${tick.event}-${tick.time.getTime()}`}
+            sx={{
+              position: 'absolute',
+              left: `${tick.left}%`,
+              top: 0,
+              width: EVENT_TICK_WIDTH,
+              height: barHeight,
+              backgroundColor: SUN_EVENT_COLORS[tick.event],
+              borderRadius: 1,
+              transform: 'translateX(-50%)',
+              zIndex: 3,
+            }}
+          />
+        ))}
+        {/* Twilight and golden hour labels, named in full in the legend under the chart */}
+        {eventTicks.map((tick) => (
+          <Box
+            key={`${tick.event}-${tick.time.getTime()}-label`}
+            title={t(`phases.events.${tick.event}`)}
+            sx={{
+              position: 'absolute',
+              left: `${tick.left}%`,
+              top: barHeight + 2 + tick.row * EVENT_LABEL_HEIGHT,
+              transform: 'translateX(-50%)',
+              zIndex: 4,
+              color: SUN_EVENT_COLORS[tick.event],
+              fontSize: '0.65rem',
+              fontWeight: 700,
+              lineHeight: `${EVENT_LABEL_HEIGHT}px`,
+              whiteSpace: 'nowrap',
+              textShadow: '0px 0px 2px rgba(0,0,0,1)',
+            }}
+          >
+            {formatTime(tick.time, timeZone)}
+          </Box>
+        ))}
+        {/* Special sunrise/sunset and solar noon ticks */}
         {specialTicks.map((tick) => (
           <Box
             key={tick.key}
             sx={{
               position: 'absolute',
-              left: `${(tick.minutes / (24 * 60)) * 100}%`,
+              left: `${tick.left}%`,
               top: 0,
               width: HOUR_TICK_WIDTH,
               height: barHeight,
@@ -93,9 +195,7 @@ const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({ sunTimes, barHeight
           />
         ))}
         {/* Time labels every 6h, on top, except last (midnight) */}
-        {Array.from({ length: 4 }, (_, i) => {
-          const hour = i * 6;
-          const left = (hour / 24) * 100;
+        {labels.map(({ hour, left }) => {
           return (
             <Box
               key={`label-${hour}`}
@@ -115,13 +215,13 @@ const SunIntensityAxis: React.FC<SunIntensityAxisProps> = ({ sunTimes, barHeight
             </Box>
           );
         })}
-        {/* Sunrise/sunset time labels (rendered last, highest z-index) */}
+        {/* Sunrise/sunset and solar noon time labels (rendered last, highest z-index) */}
         {specialTicks.map((tick) => (
           <Box
             key={`${tick.key}-label`}
             sx={{
               position: 'absolute',
-              left: `${(tick.minutes / (24 * 60)) * 100}%`,
+              left: `${tick.left}%`,
               top: -18,
               transform: 'translateX(-50%)',
               zIndex: 10,
@@ -1,78 +1,386 @@
-import { Box, Card, CardContent, Divider, Typography } from '@mui/material';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import EventIcon from '@mui/icons-material/Event';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import NightlightIcon from '@mui/icons-material/Nightlight';
+import PrintIcon from '@mui/icons-material/Print';
+import {
+  Box,
+  Card,
+  CardContent,
+  Divider,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
 import type React from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  type CloudCover,
+  type ComparisonConfig,
+  formatTime,
+  getMoonEvents,
+  getMoonPhase,
+  getSeriesBounds,
+  getSideAzimuth,
+  getSunEvents,
+  getSunPhaseBands,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  IRRADIANCE_COMPONENTS,
+  type IrradianceComponent,
+  type SunPositionData,
+  type Surface,
+  sampleMoonDay,
+} from '../solar';
+import { SELECTED_TIME_COLOR, SUN_EVENT_COLORS, SUN_PHASE_COLORS } from './chartColors';
+import { BAR_OFFSET } from './chartLayout';
+import DataExportDialog from './DataExportDialog';
+import MoonPhaseIcon from './MoonPhaseIcon';
+import MoonVisibilityBar from './MoonVisibilityBar';
+import ReportDialog from './ReportDialog';
+import SunCalendarDialog from './SunCalendarDialog';
 import SunIntensityAxis from './SunIntensityAxis';
-import SunIntensityBar from './SunIntensityBar';
+import SunIntensityBar, { COMPONENT_COLORS } from './SunIntensityBar';
 import SunIntensityChartHover from './SunIntensityChartHover';
-
-interface SunPositionData {
-  time: Date;
-  position: {
-    azimuth: number; // in radians
-    altitude: number; // in radians
-  };
-}
+import SunIntensityComparison from './SunIntensityComparison';
+import SunIntensityTooltip from './SunIntensityTooltip';
+import SunPhaseBands from './SunPhaseBands';
+import { getSurfaceLabel } from './surfaceLabel';
 
 interface SunIntensityChartProps {
   sunPositionData: SunPositionData[];
   sunTimes: { sunrise: Date; sunset: Date } | null;
+  lat: number;
+  lon: number;
   azm: number;
+  date: string;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  components: IrradianceComponent[]; // irradiance components stacked in the bars
+  onComponentsChange: (value: IrradianceComponent[]) => void;
+  selectedTime?: Date | null; // highlighted with a marker across all bars
+  timeZone: string;
+  hoverTime: Date | null;
+  onHoverTimeChange: (value: Date | null) => void;
+  compareMode: boolean; // stack the configurations being compared under each surface
+  comparisons: ComparisonConfig[];
+  onCompareModeChange: (value: boolean) => void;
+  weather: boolean; // whether cloudiness is taken into account
+  cloudCover?: CloudCover; // forecast for the displayed day, when available
+  moon: boolean; // show moonrise, moonset, the phase and when each surface sees the moon
+  onMoonChange: (value: boolean) => void;
 }
 
-const SunIntensityChart: React.FC<SunIntensityChartProps> = ({ sunPositionData, sunTimes, azm }) => {
+const SunIntensityChart: React.FC<SunIntensityChartProps> = ({
+  sunPositionData,
+  sunTimes,
+  lat,
+  lon,
+  azm,
+  date,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  components,
+  onComponentsChange,
+  selectedTime,
+  timeZone,
+  hoverTime,
+  onHoverTimeChange,
+  compareMode,
+  comparisons,
+  onCompareModeChange,
+  weather,
+  cloudCover,
+  moon,
+  onMoonChange,
+}) => {
   const { t } = useTranslation();
+  const [exportOpen, setExportOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const sunEvents = useMemo(() => getSunEvents(date, lat, lon, timeZone), [date, lat, lon, timeZone]);
+  const sunPhaseBands = useMemo(() => getSunPhaseBands(date, lat, lon, timeZone), [date, lat, lon, timeZone]);
+  const moonPositions = useMemo(
+    () => (moon ? sampleMoonDay(date, lat, lon, timeZone) : []),
+    [moon, date, lat, lon, timeZone],
+  );
+  const moonEvents = useMemo(
+    () => (moon ? getMoonEvents(date, lat, lon, timeZone) : []),
+    [moon, date, lat, lon, timeZone],
+  );
   if (sunPositionData.length === 0) {
     return null;
   }
 
+  // Position of the selected time along the bars, if it falls on the displayed day
+  const { start: dayStart, end: dayEnd } = getSeriesBounds(sunPositionData);
+  const selectedFraction =
+    selectedTime && selectedTime >= dayStart && selectedTime < dayEnd
+      ? (selectedTime.getTime() - dayStart.getTime()) / (dayEnd.getTime() - dayStart.getTime())
+      : null;
+  // Phase at the middle of the displayed day
+  const moonPhase = getMoonPhase(new Date((dayStart.getTime() + dayEnd.getTime()) / 2));
+
   return (
     <Card sx={{ mb: 3 }}>
       <CardContent>
-        <Typography variant="h6" gutterBottom>
-          {t('chart.title')}
-        </Typography>
-        <Divider sx={{ mb: 4, mt: 1 }} />
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6">{t('chart.title')}</Typography>
+          <ToggleButtonGroup
+            size="small"
+            value={components}
+            onChange={(_, value: IrradianceComponent[]) =>
+              // Keep the stacking order stable regardless of the click order
+              onComponentsChange(IRRADIANCE_COMPONENTS.filter((component) => value.includes(component)))
+            }
+            aria-label={t('chart.components.label')}
+          >
+            {IRRADIANCE_COMPONENTS.map((component) => (
+              <ToggleButton key={component} value={component} sx={{ gap: 1, textTransform: 'none' }}>
+                <Box sx={{ width: 10, height: 10, borderRadius: 0.5, backgroundColor: COMPONENT_COLORS[component] }} />
+                {t(`chart.components.${component}`)}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Tooltip title={t('compare.toggle')}>
+            <ToggleButton
+              size="small"
+              value="compare"
+              selected={compareMode}
+              onChange={() => onCompareModeChange(!compareMode)}
+              aria-label={t('compare.toggle')}
+            >
+              <CompareArrowsIcon />
+            </ToggleButton>
+          </Tooltip>
+          <Tooltip title={t('moon.toggle')}>
+            <ToggleButton
+              size="small"
+              value="moon"
+              selected={moon}
+              onChange={() => onMoonChange(!moon)}
+              aria-label={t('moon.toggle')}
+            >
+              <NightlightIcon />
+            </ToggleButton>
+          </Tooltip>
+          <Tooltip title={t('export.data.title')}>
+            <IconButton onClick={() => setExportOpen(true)} aria-label={t('export.data.title')}>
+              <FileDownloadIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('export.report.title')}>
+            <IconButton onClick={() => setReportOpen(true)} aria-label={t('export.report.title')}>
+              <PrintIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('export.calendar.title')}>
+            <IconButton onClick={() => setCalendarOpen(true)} aria-label={t('export.calendar.title')}>
+              <EventIcon />
+            </IconButton>
+          </Tooltip>
+        </Box>
+        <Divider sx={{ mb: weather && !compareMode ? 1 : 4, mt: 1 }} />
+        {weather && !compareMode && (
+          <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3, textAlign: 'left' }}>
+            {cloudCover ? t('weather.forecastApplied') : t('weather.beyondForecast')}
+          </Typography>
+        )}
 
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, position: 'relative' }}>
-          <SunIntensityAxis sunTimes={sunTimes} />
-          <SunIntensityBar
-            sunPositions={sunPositionData}
-            color="#FFD300"
-            sideAzimuth={((270 + azm) * Math.PI) / 180}
-            surfaceAltitude={0}
-            label={t('chart.surfaces.east')}
+          <SunPhaseBands bands={sunPhaseBands} dayStart={dayStart} dayEnd={dayEnd} />
+          <SunIntensityAxis
+            sunTimes={sunTimes}
+            dayStart={dayStart}
+            dayEnd={dayEnd}
+            timeZone={timeZone}
+            sunEvents={sunEvents}
+            moonEvents={moonEvents}
           />
-          <SunIntensityBar
-            sunPositions={sunPositionData}
-            color="#FF0000"
-            sideAzimuth={((0 + azm) * Math.PI) / 180}
-            surfaceAltitude={0}
-            label={t('chart.surfaces.south')}
+          {compareMode ? (
+            <SunIntensityComparison
+              sunPositionData={sunPositionData}
+              timeZone={timeZone}
+              azm={azm}
+              comparisons={comparisons}
+              surfaces={surfaces}
+              horizon={horizon}
+              albedo={albedo}
+              atmosphere={atmosphere}
+              components={components}
+            />
+          ) : (
+            surfaces.map((surface) => (
+              <Fragment key={surface.id}>
+                <SunIntensityBar
+                  sunPositions={sunPositionData}
+                  color={surface.color}
+                  sideAzimuth={getSideAzimuth(surface, azm)}
+                  surfaceAltitude={getSurfaceAltitude(surface)}
+                  label={getSurfaceLabel(surface, azm, t)}
+                  horizon={horizon}
+                  balcony={surface.balcony}
+                  albedo={albedo}
+                  atmosphere={atmosphere}
+                  timeZone={timeZone}
+                  components={components}
+                  cloudCover={cloudCover}
+                />
+                {moon && (
+                  <MoonVisibilityBar
+                    moonPositions={moonPositions}
+                    sideAzimuth={getSideAzimuth(surface, azm)}
+                    surfaceAltitude={getSurfaceAltitude(surface)}
+                    horizon={horizon}
+                    balcony={surface.balcony}
+                  />
+                )}
+              </Fragment>
+            ))
+          )}
+          {selectedFraction !== null && (
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 16,
+                bottom: 0,
+                left: `calc(${BAR_OFFSET}px + (100% - ${BAR_OFFSET}px) * ${selectedFraction})`,
+                width: '2px',
+                backgroundColor: SELECTED_TIME_COLOR,
+                boxShadow: `0 0 4px ${SELECTED_TIME_COLOR}`,
+                zIndex: 4,
+                pointerEvents: 'none',
+              }}
+            />
+          )}
+          <SunIntensityChartHover
+            sunPositionData={sunPositionData}
+            timeZone={timeZone}
+            onMouseMove={onHoverTimeChange}
+            onMouseLeave={() => onHoverTimeChange(null)}
+            tooltip={
+              hoverTime && (
+                <SunIntensityTooltip
+                  time={hoverTime}
+                  lat={lat}
+                  lon={lon}
+                  azm={azm}
+                  timeZone={timeZone}
+                  surfaces={surfaces}
+                  horizon={horizon}
+                  albedo={albedo}
+                  atmosphere={atmosphere}
+                  components={components}
+                  cloudCover={cloudCover}
+                />
+              )
+            }
           />
-          <SunIntensityBar
-            sunPositions={sunPositionData}
-            color="#3914AF"
-            sideAzimuth={((90 + azm) * Math.PI) / 180}
-            surfaceAltitude={0}
-            label={t('chart.surfaces.west')}
-          />
-          <SunIntensityBar
-            sunPositions={sunPositionData}
-            color="#00CC00"
-            sideAzimuth={((180 + azm) * Math.PI) / 180}
-            surfaceAltitude={0}
-            label={t('chart.surfaces.north')}
-          />
-          <SunIntensityBar
-            sunPositions={sunPositionData}
-            color="#FFFFFF"
-            sideAzimuth={0}
-            surfaceAltitude={Math.PI / 2}
-            label={t('chart.surfaces.roof')}
-          />
-          <SunIntensityChartHover sunPositionData={sunPositionData} onMouseMove={() => {}} onMouseLeave={() => {}} />
         </Box>
+
+        {/* Sky phases behind the bars and the times they change */}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', columnGap: 2, rowGap: 0.5, mt: 2 }}>
+          {[...new Set(sunPhaseBands.map(({ phase }) => phase))]
+            .filter((phase) => phase !== 'day')
+            .map((phase) => (
+              <Box key={phase} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <Box sx={{ width: 12, height: 12, borderRadius: 0.5, backgroundColor: SUN_PHASE_COLORS[phase] }} />
+                <Typography variant="caption">{t(`tooltip.phase.${phase}`)}</Typography>
+              </Box>
+            ))}
+        </Box>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', columnGap: 2, rowGap: 0.5, mt: 1 }}>
+          {sunEvents.map(({ event, time }) => (
+            <Box key={`${event}-${time.getTime()}`} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Box sx={{ width: 3, height: 12, borderRadius: 0.5, backgroundColor: SUN_EVENT_COLORS[event] }} />
+              <Typography variant="caption" color="text.secondary">
+                {t(`phases.events.${event}`)} {formatTime(time, timeZone)}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+        {moon && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mt: 2 }}>
+            <MoonPhaseIcon
+              cycle={moonPhase.cycle}
+              illumination={moonPhase.illumination}
+              southern={lat < 0}
+              size={24}
+              label={t(`moon.phases.${moonPhase.phase}`)}
+            />
+            <Typography variant="body2">
+              {t('moon.phase', {
+                phase: t(`moon.phases.${moonPhase.phase}`),
+                value: Math.round(moonPhase.illumination * 100),
+              })}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {moonEvents.length > 0
+                ? moonEvents
+                    .map(({ event, time }) => `${t(`moon.events.${event}`)} ${formatTime(time, timeZone)}`)
+                    .join(' · ')
+                : t('moon.noEvents')}
+            </Typography>
+          </Box>
+        )}
       </CardContent>
+      {/* Dialogs are mounted on demand, so they start from the displayed day */}
+      {exportOpen && (
+        <DataExportDialog
+          open
+          onClose={() => setExportOpen(false)}
+          lat={lat}
+          lon={lon}
+          azm={azm}
+          date={date}
+          timeZone={timeZone}
+          surfaces={surfaces}
+          horizon={horizon}
+          albedo={albedo}
+          atmosphere={atmosphere}
+        />
+      )}
+      {reportOpen && (
+        <ReportDialog
+          open
+          onClose={() => setReportOpen(false)}
+          sunPositionData={sunPositionData}
+          sunTimes={sunTimes}
+          lat={lat}
+          lon={lon}
+          azm={azm}
+          date={date}
+          timeZone={timeZone}
+          surfaces={surfaces}
+          horizon={horizon}
+          albedo={albedo}
+          atmosphere={atmosphere}
+          components={components}
+        />
+      )}
+      {calendarOpen && (
+        <SunCalendarDialog
+          open
+          onClose={() => setCalendarOpen(false)}
+          lat={lat}
+          lon={lon}
+          azm={azm}
+          date={date}
+          timeZone={timeZone}
+          surfaces={surfaces}
+          horizon={horizon}
+          albedo={albedo}
+          atmosphere={atmosphere}
+        />
+      )}
     </Card>
   );
 };
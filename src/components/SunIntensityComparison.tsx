@@ -0,0 +1,144 @@
+import { Box, Typography } from '@mui/material';
+import type React from 'react';
+import { Fragment, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  type Atmosphere,
+  type ComparisonConfig,
+  getComparedSurface,
+  getComparisonSite,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  type IrradianceComponent,
+  lookupTimeZone,
+  type SunPositionData,
+  type Surface,
+  sampleDay,
+} from '../solar';
+import SunIntensityBar from './SunIntensityBar';
+import SunIntensityDifferenceBar from './SunIntensityDifferenceBar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface SunIntensityComparisonProps {
+  sunPositionData: SunPositionData[];
+  timeZone: string;
+  azm: number;
+  comparisons: ComparisonConfig[];
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  components: IrradianceComponent[];
+}
+
+// Bars of every configuration stacked under each surface, each followed by its difference to the current one
+const SunIntensityComparison: React.FC<SunIntensityComparisonProps> = ({
+  sunPositionData,
+  timeZone,
+  azm,
+  comparisons,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  components,
+}) => {
+  const { t } = useTranslation();
+
+  // Each configuration is sampled over its own local day, so bars line up by clock time
+  const configurations = useMemo(
+    () =>
+      comparisons.map((config) => {
+        const configTimeZone = lookupTimeZone(config.lat, config.lon);
+        return {
+          config,
+          site: getComparisonSite(config),
+          timeZone: configTimeZone,
+          sunPositions: sampleDay(config.date, config.lat, config.lon, configTimeZone),
+        };
+      }),
+    [comparisons],
+  );
+
+  const series = useMemo(
+    () =>
+      surfaces.map((surface, index) => ({
+        surface,
+        reference: {
+          sunPositions: sunPositionData,
+          timeZone,
+          sideAzimuth: getSideAzimuth(surface, azm),
+          surfaceAltitude: getSurfaceAltitude(surface),
+          options: { horizon, balcony: surface.balcony, albedo, atmosphere, timeZone },
+        },
+        compared: configurations.map(({ config, site, timeZone: configTimeZone, sunPositions }) => {
+          const comparedSurface = getComparedSurface(config, surface, index);
+          return {
+            config,
+            series: {
+              sunPositions,
+              timeZone: configTimeZone,
+              sideAzimuth: getSideAzimuth(comparedSurface, config.azm),
+              surfaceAltitude: getSurfaceAltitude(comparedSurface),
+              options: { ...site, balcony: comparedSurface.balcony, timeZone: configTimeZone },
+            },
+          };
+        }),
+      })),
+    [surfaces, sunPositionData, timeZone, azm, horizon, albedo, atmosphere, configurations],
+  );
+
+  return (
+    <>
+      {series.map(({ surface, reference, compared }) => (
+        <Box key={surface.id} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography
+            variant="subtitle2"
+            sx={{ borderLeft: 4, borderColor: surface.color, pl: 1, mt: 1, textAlign: 'left' }}
+          >
+            {getSurfaceLabel(surface, azm, t)}
+          </Typography>
+          <SunIntensityBar
+            sunPositions={reference.sunPositions}
+            color={surface.color}
+            sideAzimuth={reference.sideAzimuth}
+            surfaceAltitude={reference.surfaceAltitude}
+            label={t('compare.current')}
+            horizon={reference.options.horizon}
+            balcony={reference.options.balcony}
+            albedo={reference.options.albedo}
+            atmosphere={reference.options.atmosphere}
+            timeZone={reference.timeZone}
+            components={components}
+          />
+          {compared.map(({ config, series: configSeries }) => (
+            <Fragment key={config.id}>
+              <SunIntensityBar
+                sunPositions={configSeries.sunPositions}
+                color={surface.color}
+                sideAzimuth={configSeries.sideAzimuth}
+                surfaceAltitude={configSeries.surfaceAltitude}
+                label={config.label}
+                horizon={configSeries.options.horizon}
+                balcony={configSeries.options.balcony}
+                albedo={configSeries.options.albedo}
+                atmosphere={configSeries.options.atmosphere}
+                timeZone={configSeries.timeZone}
+                components={components}
+              />
+              <SunIntensityDifferenceBar
+                reference={reference}
+                compared={configSeries}
+                label={t('compare.difference', { label: config.label })}
+                components={components}
+              />
+            </Fragment>
+          ))}
+        </Box>
+      ))}
+    </>
+  );
+};
+
+export default SunIntensityComparison;
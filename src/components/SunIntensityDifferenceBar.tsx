@@ -0,0 +1,128 @@
+import { Box, Typography } from '@mui/material';
+import type React from 'react';
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  calculateIntensityDifference,
+  calculateIntensitySeries,
+  type IntensityOptions,
+  type IrradianceComponent,
+  integrateDailyExposure,
+  type SunPositionData,
+} from '../solar';
+import { LABEL_WIDTH, SUMMARY_WIDTH } from './chartLayout';
+
+const GAIN_COLOR = '#66BB6A';
+const LOSS_COLOR = '#EF5350';
+
+// One side of the comparison: where the sun is, how the surface is oriented there and what surrounds it
+interface ComparedSeries {
+  sunPositions: SunPositionData[];
+  timeZone: string;
+  sideAzimuth: number; // azimuth of the side in radians from North
+  surfaceAltitude: number; // altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+  options: IntensityOptions;
+}
+
+interface SunIntensityDifferenceBarProps {
+  reference: ComparedSeries;
+  compared: ComparedSeries;
+  label: string;
+  components: IrradianceComponent[];
+}
+
+const formatDelta = (value: number, digits: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(digits)}`;
+
+// Gain (up) or loss (down) of the compared configuration over the reference, along the reference day
+const SunIntensityDifferenceBar: React.FC<SunIntensityDifferenceBarProps> = ({
+  reference,
+  compared,
+  label,
+  components,
+}) => {
+  const { t } = useTranslation();
+  const [referenceSamples, comparedSamples] = useMemo(
+    () =>
+      [reference, compared].map(({ sunPositions, sideAzimuth, surfaceAltitude, options }) =>
+        calculateIntensitySeries(sunPositions, sideAzimuth, surfaceAltitude, options),
+      ),
+    [reference, compared],
+  );
+  const difference = useMemo(
+    () =>
+      calculateIntensityDifference(
+        referenceSamples,
+        comparedSamples,
+        reference.timeZone,
+        compared.timeZone,
+        components,
+      ),
+    [referenceSamples, comparedSamples, reference.timeZone, compared.timeZone, components],
+  );
+  const [referenceExposure, comparedExposure] = useMemo(
+    () => [referenceSamples, comparedSamples].map((samples) => integrateDailyExposure(samples, 0, components)),
+    [referenceSamples, comparedSamples, components],
+  );
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <Typography
+        variant="body2"
+        title={label}
+        noWrap
+        sx={{
+          width: LABEL_WIDTH,
+          flexShrink: 0,
+          fontSize: '0.75rem',
+          fontWeight: 'bold',
+          textAlign: 'center',
+          color: 'text.secondary',
+          px: 0.5,
+        }}
+      >
+        {label}
+      </Typography>
+      <Typography
+        variant="body2"
+        sx={{ width: SUMMARY_WIDTH, flexShrink: 0, fontSize: '0.7rem', lineHeight: 1.2, textAlign: 'left' }}
+      >
+        {t('chart.exposure.irradiation', {
+          value: formatDelta((comparedExposure.irradiation - referenceExposure.irradiation) / 1000, 2),
+        })}
+        <br />
+        {t('chart.exposure.directSunHours', {
+          value: formatDelta(comparedExposure.directSunHours - referenceExposure.directSunHours, 1),
+        })}
+      </Typography>
+      <Box
+        sx={{
+          flex: 1,
+          height: 20,
+          position: 'relative',
+          backgroundColor: 'rgba(255, 255, 255, 0.05)',
+          borderRadius: 1,
+          overflow: 'hidden',
+        }}
+      >
+        <Box sx={{ position: 'absolute', left: 0, right: 0, top: '50%', height: '1px', backgroundColor: 'divider' }} />
+        {difference.map((value, index) =>
+          value ? (
+            <Box
+              key={referenceSamples[index].time.getTime()}
+              sx={{
+                position: 'absolute',
+                left: `${(index / difference.length) * 100}%`,
+                width: `${100 / difference.length}%`,
+                height: `${Math.min(1, Math.abs(value)) * 50}%`,
+                ...(value > 0 ? { bottom: '50%' } : { top: '50%' }),
+                backgroundColor: value > 0 ? GAIN_COLOR : LOSS_COLOR,
+              }}
+            />
+          ) : null,
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default memo(SunIntensityDifferenceBar);
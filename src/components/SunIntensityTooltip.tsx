@@ -0,0 +1,97 @@
+import { Box, Typography } from '@mui/material';
+import type React from 'react';
+import { useTranslation } from 'react-i18next';
+import SunCalc from 'suncalc';
+import {
+  type Atmosphere,
+  type CloudCover,
+  calculateIntensitySeries,
+  formatTime,
+  getSideAzimuth,
+  getSunPhase,
+  getSurfaceAltitude,
+  type HorizonProfile,
+  type IrradianceComponent,
+  SOLAR_CONSTANT,
+  type Surface,
+  sumComponents,
+  toCompassBearing,
+} from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface SunIntensityTooltipProps {
+  time: Date;
+  lat: number;
+  lon: number;
+  azm: number;
+  timeZone: string;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  components: IrradianceComponent[];
+  cloudCover?: CloudCover;
+}
+
+const SunIntensityTooltip: React.FC<SunIntensityTooltipProps> = ({
+  time,
+  lat,
+  lon,
+  azm,
+  timeZone,
+  surfaces,
+  horizon,
+  albedo,
+  atmosphere,
+  components,
+  cloudCover,
+}) => {
+  const { t } = useTranslation();
+  const { azimuth, altitude } = SunCalc.getPosition(time, lat, lon);
+  const sunPositions = [{ time, position: { azimuth, altitude } }];
+  const clouds = cloudCover?.(time) ?? null;
+
+  return (
+    <Box sx={{ p: 0.5, minWidth: 180 }}>
+      <Typography variant="subtitle2">
+        {formatTime(time, timeZone)} · {t(`tooltip.phase.${getSunPhase(altitude)}`)}
+      </Typography>
+      <Typography variant="caption" component="div" sx={{ mb: 0.5 }}>
+        {t('tooltip.sun', {
+          altitude: ((altitude * 180) / Math.PI).toFixed(1),
+          azimuth: toCompassBearing(azimuth).toFixed(1),
+        })}
+        {clouds !== null && ` · ${t('tooltip.clouds', { value: Math.round(clouds * 100) })}`}
+      </Typography>
+      {surfaces.map((surface) => {
+        const [sample] = calculateIntensitySeries(
+          sunPositions,
+          getSideAzimuth(surface, azm),
+          getSurfaceAltitude(surface),
+          {
+            horizon,
+            balcony: surface.balcony,
+            albedo,
+            atmosphere,
+            cloudCover,
+            timeZone,
+          },
+        );
+        return (
+          <Box key={surface.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ width: 10, height: 10, borderRadius: 0.5, backgroundColor: surface.color, flexShrink: 0 }} />
+            <Typography variant="caption" sx={{ flex: 1 }}>
+              {getSurfaceLabel(surface, azm, t)}
+            </Typography>
+            <Typography variant="caption" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+              {t('tooltip.irradiance', { value: Math.round(sumComponents(sample, components) * SOLAR_CONSTANT) })}
+              {sample.obstructed && ` · ${t('tooltip.obstructed')}`}
+            </Typography>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default SunIntensityTooltip;
@@ -0,0 +1,43 @@
+import { Box } from '@mui/material';
+import type React from 'react';
+import type { SunPhaseBand } from '../solar';
+import { SUN_PHASE_COLORS } from './chartColors';
+import { BAR_OFFSET } from './chartLayout';
+
+const BAND_OPACITY = 0.45;
+
+interface SunPhaseBandsProps {
+  bands: SunPhaseBand[];
+  dayStart: Date; // instant at the left edge of the bars
+  dayEnd: Date; // instant at the right edge of the bars
+}
+
+// Sky phases drawn across the whole chart, behind the axis and the bars
+const SunPhaseBands: React.FC<SunPhaseBandsProps> = ({ bands, dayStart, dayEnd }) => {
+  const toPercent = (date: Date) =>
+    ((date.getTime() - dayStart.getTime()) / (dayEnd.getTime() - dayStart.getTime())) * 100;
+
+  return (
+    <Box
+      aria-hidden
+      sx={{ position: 'absolute', top: 16, bottom: 0, left: BAR_OFFSET, right: 0, pointerEvents: 'none' }}
+    >
+      {bands.map(({ phase, start, end }) => (
+        <Box
+          key={start.getTime()}
+          sx={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${toPercent(start)}%`,
+            width: `${toPercent(end) - toPercent(start)}%`,
+            backgroundColor: SUN_PHASE_COLORS[phase],
+            opacity: BAND_OPACITY,
+          }}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default SunPhaseBands;
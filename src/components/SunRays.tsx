@@ -1,91 +1,96 @@
 import L from 'leaflet';
 import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { Marker, Polyline } from 'react-leaflet';
 import SunCalc from 'suncalc';
+import { formatTime, getDaylightRays, getSunEvents } from '../solar';
+import { SELECTED_TIME_COLOR, SUN_EVENT_COLORS } from './chartColors';
+import { HOVER_COLOR } from './SunIntensityChartHover';
 
-// Component to draw sun rays
-const SunRays: React.FC<{ lat: number; lon: number; date: string }> = ({ lat, lon, date }) => {
-  // Get sunrise and sunset times for the selected date
-  const selectedDate = new Date(date);
-  const sunTimes = SunCalc.getTimes(selectedDate, lat, lon);
-  const sunrise = sunTimes.sunrise;
-  const sunset = sunTimes.sunset;
-
-  // Generate rays for every 30 minutes during daylight hours
-  const rays = [];
-  const sunriseHour = sunrise.getHours();
-  const sunriseMinute = sunrise.getMinutes();
-  const sunsetHour = sunset.getHours();
-  const sunsetMinute = sunset.getMinutes();
-
-  // Start from sunrise, end at sunset
-  const startTime = new Date(selectedDate);
-  startTime.setHours(sunriseHour, Math.floor(sunriseMinute / 30) * 30, 0, 0);
-
-  const endTime = new Date(selectedDate);
-  endTime.setHours(sunsetHour, Math.ceil(sunsetMinute / 30) * 30, 0, 0);
-
-  // Generate rays every 30 minutes during daylight
-  for (let time = new Date(startTime); time <= endTime; time.setMinutes(time.getMinutes() + 30)) {
-    const sunPos = SunCalc.getPosition(time, lat, lon);
-
-    // Only draw rays when sun is above horizon (altitude > 0)
-    if (sunPos.altitude > 0) {
-      // Calculate ray length based on altitude (longer when sun is near horizon)
-      // Base length is 150 meters, scale by altitude (0-1 range)
-      const baseLength = 150; // meters
-      const altitudeFactor = Math.cos(sunPos.altitude); // 1 at horizon, 0 at zenith
-      const rayLength = baseLength * altitudeFactor;
-
-      // Convert meters to lat/lon offsets
-      const latOffset = rayLength / 111320;
-      const lonOffset = rayLength / (111320 * Math.cos((lat * Math.PI) / 180));
-
-      // Calculate end point of ray
-      const azimuthRad = sunPos.azimuth;
-      // SunCalc azimuth: 0 = North, π/2 = East, π = South, 3π/2 = West
-      // We want to point FROM the sun TO our location, so we need to reverse the direction
-      const endLat = lat - Math.cos(azimuthRad) * latOffset;
-      const endLon = lon - Math.sin(azimuthRad) * lonOffset;
-
-      rays.push({
-        start: [lat, lon] as [number, number],
-        end: [endLat, endLon] as [number, number],
-        time: new Date(time),
-        altitude: sunPos.altitude,
-        azimuth: sunPos.azimuth,
-        isSunrise: false,
-        isSunset: false,
-      });
-    }
-  }
-
-  // Add special sunrise and sunset rays
-  const addSpecialRay = (time: Date, isSunrise: boolean) => {
-    const sunPos = SunCalc.getPosition(time, lat, lon);
-    const baseLength = 180; // Slightly longer for special rays
-    const rayLength = baseLength * Math.cos(sunPos.altitude); // Long ray for horizon
+const SHADOW_COLOR = '#1a1a2e';
+const SHADOW_MAX_LENGTH = 100; // meters
+const PHASE_RAY_LENGTH = 160; // meters
 
+// Component to draw sun rays
+const SunRays: React.FC<{
+  lat: number;
+  lon: number;
+  date: string;
+  timeZone: string;
+  selectedTime?: Date | null;
+  hoverTime?: Date | null;
+  showPhases?: boolean; // add rays for twilight, blue hour, golden hour and solar noon
+}> = ({ lat, lon, date, timeZone, selectedTime, hoverTime, showPhases = false }) => {
+  const { t } = useTranslation();
+  // Daylight rays every 30 minutes, plus special sunrise and sunset rays
+  const rays = getDaylightRays(date, lat, lon, timeZone).map(({ time, position, event }) => {
+    // Calculate ray length based on altitude (longer when sun is near horizon)
+    // Base length is 150 meters, slightly longer for special rays, scaled by cos(altitude)
+    const baseLength = event ? 180 : 150; // meters
+    const rayLength = baseLength * Math.cos(position.altitude); // 1 at horizon, 0 at zenith
+
+    // Convert meters to lat/lon offsets
     const latOffset = rayLength / 111320;
     const lonOffset = rayLength / (111320 * Math.cos((lat * Math.PI) / 180));
 
-    const azimuthRad = sunPos.azimuth;
-    const endLat = lat - Math.cos(azimuthRad) * latOffset;
-    const endLon = lon - Math.sin(azimuthRad) * lonOffset;
+    // We want to point FROM the sun TO our location, so we need to reverse the direction
+    const endLat = lat - Math.cos(position.azimuth) * latOffset;
+    const endLon = lon - Math.sin(position.azimuth) * lonOffset;
 
-    rays.push({
+    return {
       start: [lat, lon] as [number, number],
       end: [endLat, endLon] as [number, number],
-      time: time,
-      altitude: sunPos.altitude,
-      azimuth: sunPos.azimuth,
-      isSunrise,
-      isSunset: !isSunrise,
-    });
+      time,
+      isSunrise: event === 'sunrise',
+      isSunset: event === 'sunset',
+    };
+  });
+
+  // Sunrise and sunset already have their own rays, twilight rays point to where the sun lies below the horizon
+  const phaseRays = showPhases
+    ? getSunEvents(date, lat, lon, timeZone)
+        .filter(({ event }) => event !== 'sunrise' && event !== 'sunset')
+        .map(({ event, time }) => {
+          const { azimuth, altitude } = SunCalc.getPosition(time, lat, lon);
+          const rayLength = PHASE_RAY_LENGTH * Math.cos(altitude);
+          return {
+            event,
+            time,
+            end: [
+              lat - (Math.cos(azimuth) * rayLength) / 111320,
+              lon - (Math.sin(azimuth) * rayLength) / (111320 * Math.cos((lat * Math.PI) / 180)),
+            ] as [number, number],
+          };
+        })
+    : [];
+
+  // Highlighted rays for the times selected or hovered elsewhere in the app, with the shadow they cast
+  const getHighlight = (time: Date, color: string) => {
+    const sunPos = SunCalc.getPosition(time, lat, lon);
+    if (sunPos.altitude <= 0) return null;
+
+    const toOffset = (length: number) => [length / 111320, length / (111320 * Math.cos((lat * Math.PI) / 180))];
+    const [rayLatOffset, rayLonOffset] = toOffset(200 * Math.cos(sunPos.altitude));
+    // Shadow of a 10 m tall object at the marker, capped for a low sun
+    const [shadowLatOffset, shadowLonOffset] = toOffset(Math.min(SHADOW_MAX_LENGTH, 10 / Math.tan(sunPos.altitude)));
+
+    return {
+      key: `${color}-${time.getTime()}`,
+      color,
+      rayEnd: [lat - Math.cos(sunPos.azimuth) * rayLatOffset, lon - Math.sin(sunPos.azimuth) * rayLonOffset] as [
+        number,
+        number,
+      ],
+      shadowEnd: [
+        lat + Math.cos(sunPos.azimuth) * shadowLatOffset,
+        lon + Math.sin(sunPos.azimuth) * shadowLonOffset,
+      ] as [number, number],
+    };
   };
-
-  addSpecialRay(sunrise, true);
-  addSpecialRay(sunset, false);
+  const highlights = [
+    selectedTime ? getHighlight(selectedTime, SELECTED_TIME_COLOR) : null,
+    hoverTime ? getHighlight(hoverTime, HOVER_COLOR) : null,
+  ].filter((highlight) => highlight !== null);
 
   return (
     <>
@@ -114,13 +119,51 @@ const SunRays: React.FC<{ lat: number; lon: number; date: string }> = ({ lat, lo
                 font-weight: bold;
                 white-space: nowrap;
                 border: 1px solid ${ray.isSunrise ? '#FF6B35' : ray.isSunset ? '#FF8C42' : '#FFD700'};
-              ">${ray.isSunrise ? '🌅' : ray.isSunset ? '🌇' : ''}${ray.time.toTimeString().slice(0, 5)}</div>`,
+              ">${ray.isSunrise ? '🌅' : ray.isSunset ? '🌇' : ''}${formatTime(ray.time, timeZone)}</div>`,
+              iconSize: [50, 20],
+              iconAnchor: [25, 10],
+            })}
+          />
+        </React.Fragment>
+      ))}
+      {phaseRays.map((ray) => (
+        <React.Fragment key={`${ray.event}-${ray.time.getTime()}`}>
+          <Polyline
+            positions={[[lat, lon], ray.end]}
+            pathOptions={{ color: SUN_EVENT_COLORS[ray.event], weight: 3, opacity: 0.9, dashArray: '2, 6' }}
+          />
+          <Marker
+            position={ray.end}
+            title={t(`phases.events.${ray.event}`)}
+            icon={L.divIcon({
+              className: 'sun-ray-label',
+              html: `<div style="
+                background: ${SUN_EVENT_COLORS[ray.event]};
+                color: #000;
+                padding: 2px 6px;
+                border-radius: 4px;
+                font-size: 10px;
+                font-weight: bold;
+                white-space: nowrap;
+              ">${ray.event === 'solarNoon' ? '☀️' : ''}${formatTime(ray.time, timeZone)}</div>`,
               iconSize: [50, 20],
               iconAnchor: [25, 10],
             })}
           />
         </React.Fragment>
       ))}
+      {highlights.map((highlight) => (
+        <React.Fragment key={highlight.key}>
+          <Polyline
+            positions={[[lat, lon], highlight.rayEnd]}
+            pathOptions={{ color: highlight.color, weight: 5, opacity: 1 }}
+          />
+          <Polyline
+            positions={[[lat, lon], highlight.shadowEnd]}
+            pathOptions={{ color: SHADOW_COLOR, weight: 8, opacity: 0.7, lineCap: 'butt' }}
+          />
+        </React.Fragment>
+      ))}
     </>
   );
 };
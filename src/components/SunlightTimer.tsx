@@ -1,133 +1,278 @@
-import { Box, Typography } from '@mui/material';
+import ShareIcon from '@mui/icons-material/Share';
+import { Box, IconButton, Tooltip, Typography } from '@mui/material';
 import type React from 'react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import SunCalc from 'suncalc';
+import { readUrlState, type UrlState, writeUrlState } from '../share';
+import {
+  type Atmosphere,
+  type ComparisonConfig,
+  createDefaultAtmosphere,
+  createDefaultSurfaces,
+  createFlatHorizon,
+  DEFAULT_ALBEDO,
+  DEFAULT_PV_SYSTEM,
+  FOOTPRINT_SIZE,
+  formatTime,
+  getSeriesBounds,
+  getToday,
+  type HorizonProfile,
+  IRRADIANCE_COMPONENTS,
+  type IrradianceComponent,
+  lookupTimeZone,
+  normalizeBearing,
+  type PvSystem,
+  parseDay,
+  relocateAtmosphere,
+  type SunPositionData,
+  type Surface,
+  sampleDay,
+  zonedTimeToDate,
+} from '../solar';
+import {
+  type CloudCoverSample,
+  coversPeriod,
+  createCloudCoverLookup,
+  createWeatherProvider,
+  findClimateRegion,
+} from '../weather';
+import AtmosphereSettings from './AtmosphereSettings';
+import ComparisonSettings from './ComparisonSettings';
+import HorizonEditor from './HorizonEditor';
 import LocationMap from './LocationMap';
-import LocationSettings from './LocationSettings';
+import LocationSettings, { type ForecastStatus } from './LocationSettings';
+import MonthlySummaryTable from './MonthlySummaryTable';
+import PlantSuggestions from './PlantSuggestions';
+import PvEstimator from './PvEstimator';
+import SavedPlaces from './SavedPlaces';
+import ShareDialog from './ShareDialog';
+import SunExposureHeatmap from './SunExposureHeatmap';
 import SunIntensityChart from './SunIntensityChart';
+import SurfaceSettings from './SurfaceSettings';
+import TimeScrubber from './TimeScrubber';
 
-// Utility functions for query string handling
-const getQueryParam = (name: string): string | null => {
-  const urlParams = new URLSearchParams(window.location.search);
-  return urlParams.get(name);
-};
-
-const updateQueryParams = (params: Record<string, string | number>) => {
-  const url = new URL(window.location.href);
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== null && value !== undefined && value !== '') {
-      url.searchParams.set(key, String(value));
-    } else {
-      url.searchParams.delete(key);
-    }
-  });
+// Links are synced once the state settles, so scrubbing or hovering does not flood the history API
+const URL_SYNC_DELAY = 300;
+// Dragging the marker changes the location continuously, wait for it to stop before asking for a forecast
+const FORECAST_DELAY = 500;
 
-  // Update URL without reloading the page
-  window.history.replaceState({}, '', url.toString());
-};
-
-interface SunPositionData {
-  time: Date;
-  position: {
-    azimuth: number; // in radians
-    altitude: number; // in radians
-  };
-}
 const SunlightTimer: React.FC = () => {
   const { t } = useTranslation();
-  // Initialize state with query parameters or defaults
-  const getInitialLat = (): number => {
-    const queryLat = getQueryParam('lat');
-    if (queryLat !== null) {
-      const parsed = parseFloat(queryLat);
-      if (!Number.isNaN(parsed) && parsed >= -90 && parsed <= 90) {
-        return parsed;
-      }
-    }
-    return parseFloat(import.meta.env.PUBLIC_DEFAULT_LAT);
-  };
-
-  const getInitialLon = (): number => {
-    const queryLon = getQueryParam('lon');
-    if (queryLon !== null) {
-      const parsed = parseFloat(queryLon);
-      if (!Number.isNaN(parsed) && parsed >= -180 && parsed <= 180) {
-        return parsed;
-      }
-    }
-    return parseFloat(import.meta.env.PUBLIC_DEFAULT_LON);
-  };
-
-  const getInitialAzm = (): number => {
-    const queryAzm = getQueryParam('azm');
-    if (queryAzm !== null) {
-      const parsed = parseFloat(queryAzm);
-      if (!Number.isNaN(parsed) && parsed >= -45 && parsed <= 45) {
-        return parsed;
-      }
-    }
-    return parseFloat(import.meta.env.PUBLIC_DEFAULT_AZM);
-  };
-
-  const [lat, setLat] = useState<number>(getInitialLat);
-  const [lon, setLon] = useState<number>(getInitialLon);
-  const [azm, setAzm] = useState<number>(getInitialAzm);
-  const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  // Initialize state from the link, falling back to defaults for anything missing or invalid
+  const [initial] = useState<Partial<UrlState>>(() => readUrlState(window.location.search));
+  const [lat, setLat] = useState<number>(() => initial.lat ?? parseFloat(import.meta.env.PUBLIC_DEFAULT_LAT));
+  const [lon, setLon] = useState<number>(() => initial.lon ?? parseFloat(import.meta.env.PUBLIC_DEFAULT_LON));
+  const [azm, setAzm] = useState<number>(
+    () => initial.azm ?? normalizeBearing(parseFloat(import.meta.env.PUBLIC_DEFAULT_AZM)),
+  );
+  const [horizon, setHorizon] = useState<HorizonProfile>(() => initial.horizon ?? createFlatHorizon());
+  const [surfaces, setSurfaces] = useState<Surface[]>(() => initial.surfaces ?? createDefaultSurfaces());
+  const [albedo, setAlbedo] = useState<number>(initial.albedo ?? DEFAULT_ALBEDO);
+  const [atmosphere, setAtmosphere] = useState<Atmosphere>(() => initial.atmosphere ?? createDefaultAtmosphere(lat));
+  const [footprintSize, setFootprintSize] = useState<number>(initial.footprintSize ?? FOOTPRINT_SIZE);
+  const [pvSystem, setPvSystem] = useState<PvSystem>(initial.pvSystem ?? DEFAULT_PV_SYSTEM);
+  const [weather, setWeather] = useState(initial.weather ?? false);
+  const [forecast, setForecast] = useState<CloudCoverSample[]>([]);
+  const [forecastStatus, setForecastStatus] = useState<ForecastStatus>('loading');
+  const timeZone = useMemo(() => lookupTimeZone(lat, lon), [lat, lon]);
+  const [date, setDate] = useState<string>(() => initial.date ?? getToday(lookupTimeZone(lat, lon)));
+  const [selectedTime, setSelectedTime] = useState<Date | null>(() => {
+    if (!initial.time) return null;
+    const [hour, minute] = initial.time.split(':').map(Number);
+    return zonedTimeToDate({ ...parseDay(date), hour, minute }, timeZone);
+  });
+  const [hoverTime, setHoverTime] = useState<Date | null>(null);
+  const [components, setComponents] = useState<IrradianceComponent[]>(initial.components ?? IRRADIANCE_COMPONENTS);
+  const [compareMode, setCompareMode] = useState(initial.compareMode ?? false);
+  const [comparisons, setComparisons] = useState<ComparisonConfig[]>(initial.comparisons ?? []);
+  const [phaseRays, setPhaseRays] = useState(initial.phaseRays ?? false);
+  const [moon, setMoon] = useState(initial.moon ?? false);
+  const [shareOpen, setShareOpen] = useState(false);
   const [sunPositionData, setSunPositionData] = useState<SunPositionData[]>([]);
   const [sunTimes, setSunTimes] = useState<{
     sunrise: Date;
     sunset: Date;
   } | null>(null);
 
-  // Update query parameters when lat, lon, or azm change
+  const urlState = useMemo<UrlState>(
+    () => ({
+      lat,
+      lon,
+      azm,
+      date,
+      surfaces,
+      horizon,
+      albedo,
+      atmosphere,
+      footprintSize,
+      pvSystem,
+      weather,
+      components,
+      compareMode,
+      comparisons,
+      phaseRays,
+      moon,
+      time: selectedTime && formatTime(selectedTime, timeZone),
+    }),
+    [
+      lat,
+      lon,
+      azm,
+      date,
+      surfaces,
+      horizon,
+      albedo,
+      atmosphere,
+      footprintSize,
+      pvSystem,
+      weather,
+      components,
+      compareMode,
+      comparisons,
+      phaseRays,
+      moon,
+      selectedTime,
+      timeZone,
+    ],
+  );
+
+  // Moves keep the atmosphere in step with the hemisphere, loading a place brings its own
+  const changeLocation = (newLat: number, newLon = lon) => {
+    setAtmosphere((current) => relocateAtmosphere(current, lat, newLat));
+    setLat(newLat);
+    setLon(newLon);
+  };
+
+  // Keep the address bar in sync, without reloading the page or adding history entries
   useEffect(() => {
-    updateQueryParams({ lat, lon, azm });
-  }, [lat, lon, azm]);
+    const timeout = setTimeout(() => {
+      window.history.replaceState({}, '', `${window.location.pathname}?${writeUrlState(urlState)}`);
+    }, URL_SYNC_DELAY);
+    return () => clearTimeout(timeout);
+  }, [urlState]);
+
+  const weatherProvider = useMemo(createWeatherProvider, []);
+
+  // Fetch the forecast once the location settles, dropping requests for places moved away from
+  useEffect(() => {
+    if (!weather) return;
+    const controller = new AbortController();
+    setForecastStatus('loading');
+    const timeout = setTimeout(() => {
+      weatherProvider
+        .forecast(lat, lon, { signal: controller.signal })
+        .then((samples) => {
+          setForecast(samples);
+          setForecastStatus('ready');
+        })
+        .catch(() => {
+          if (controller.signal.aborted) return;
+          setForecast([]);
+          setForecastStatus('failed');
+        });
+    }, FORECAST_DELAY);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [weather, weatherProvider, lat, lon]);
 
   const computeSunPositionData = useCallback(() => {
-    const intervalMinutes = 15;
-    const selectedDate = new Date(date);
-    selectedDate.setHours(0, 0, 0, 0);
-    const start = new Date(selectedDate);
-    const end = new Date(selectedDate);
-    end.setHours(23, 59, 59, 999);
-
-    // Get sunrise and sunset times
-    const times = SunCalc.getTimes(selectedDate, lat, lon);
+    // Get sunrise and sunset times, around local noon so they fall on the selected day
+    const noon = zonedTimeToDate({ ...parseDay(date), hour: 12, minute: 0 }, timeZone);
+    const times = SunCalc.getTimes(noon, lat, lon);
     setSunTimes({
       sunrise: times.sunrise,
       sunset: times.sunset,
     });
 
-    const sunPositions: SunPositionData[] = [];
-    for (let d = new Date(start); d <= end; d.setMinutes(d.getMinutes() + intervalMinutes)) {
-      const position = SunCalc.getPosition(d, lat, lon);
-      sunPositions.push({
-        time: new Date(d),
-        position: {
-          azimuth: position.azimuth,
-          altitude: position.altitude,
-        },
-      });
-    }
-
-    setSunPositionData(sunPositions);
-  }, [date, lat, lon]);
+    setSunPositionData(sampleDay(date, lat, lon, timeZone));
+  }, [date, lat, lon, timeZone]);
 
   // Compute sun position data on initial load and when date changes
   useEffect(() => {
     computeSunPositionData();
   }, [computeSunPositionData]); // Run when date changes
 
+  const dayBounds = useMemo(
+    () => (sunPositionData.length > 0 ? getSeriesBounds(sunPositionData) : { start: new Date(), end: new Date() }),
+    [sunPositionData],
+  );
+
+  // Forecast clouds only scale days the forecast fully covers, long-term views use the climate averages
+  const cloudCover = useMemo(
+    () =>
+      weather && forecastStatus === 'ready' && coversPeriod(forecast, dayBounds.start, dayBounds.end)
+        ? createCloudCoverLookup(forecast)
+        : undefined,
+    [weather, forecastStatus, forecast, dayBounds],
+  );
+  const climateRegion = useMemo(() => findClimateRegion(lat, lon), [lat, lon]);
+  const clearSkyIndex = weather ? climateRegion.clearSkyIndex : undefined;
+
   return (
     <Box>
-      <Typography variant="h2" component="h1" gutterBottom sx={{ mb: 4 }}>
-        {t('app.title')}
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mb: 4 }}>
+        <Typography variant="h2" component="h1">
+          {t('app.title')}
+        </Typography>
+        <Tooltip title={t('share.title')}>
+          <IconButton onClick={() => setShareOpen(true)} aria-label={t('share.title')}>
+            <ShareIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      {shareOpen && <ShareDialog open onClose={() => setShareOpen(false)} state={urlState} />}
 
       {/* Intensity Chart */}
-      <SunIntensityChart sunPositionData={sunPositionData} sunTimes={sunTimes} azm={azm} />
+      <SunIntensityChart
+        sunPositionData={sunPositionData}
+        sunTimes={sunTimes}
+        lat={lat}
+        lon={lon}
+        azm={azm}
+        date={date}
+        surfaces={surfaces}
+        horizon={horizon}
+        albedo={albedo}
+        atmosphere={atmosphere}
+        components={components}
+        onComponentsChange={setComponents}
+        selectedTime={selectedTime}
+        timeZone={timeZone}
+        hoverTime={hoverTime}
+        onHoverTimeChange={setHoverTime}
+        compareMode={compareMode}
+        comparisons={comparisons}
+        onCompareModeChange={setCompareMode}
+        weather={weather}
+        cloudCover={cloudCover}
+        moon={moon}
+        onMoonChange={setMoon}
+      />
+
+      {/* Configurations to compare */}
+      {compareMode && (
+        <ComparisonSettings
+          comparisons={comparisons}
+          current={{ lat, lon, azm, date }}
+          onComparisonsChange={setComparisons}
+        />
+      )}
+
+      {/* Time scrubber */}
+      {sunPositionData.length > 0 && (
+        <TimeScrubber
+          lat={lat}
+          lon={lon}
+          dayStart={dayBounds.start}
+          dayEnd={dayBounds.end}
+          timeZone={timeZone}
+          time={selectedTime}
+          onTimeChange={setSelectedTime}
+        />
+      )}
 
       {/* Inputs and Map side by side */}
       <Box
@@ -145,15 +290,125 @@ const SunlightTimer: React.FC = () => {
           lon={lon}
           azm={azm}
           date={date}
-          onLatChange={setLat}
+          timeZone={timeZone}
+          albedo={albedo}
+          surfaces={surfaces}
+          onLatChange={changeLocation}
           onLonChange={setLon}
           onAzmChange={setAzm}
           onDateChange={setDate}
+          onAlbedoChange={setAlbedo}
+          weather={weather}
+          forecastStatus={forecastStatus}
+          climateRegion={climateRegion.id}
+          onWeatherChange={setWeather}
         />
 
         {/* Map */}
-        <LocationMap lat={lat} lon={lon} azm={azm} date={date} />
+        <LocationMap
+          lat={lat}
+          lon={lon}
+          azm={azm}
+          date={date}
+          timeZone={timeZone}
+          surfaces={surfaces}
+          selectedTime={selectedTime}
+          hoverTime={hoverTime}
+          footprintSize={footprintSize}
+          phaseRays={phaseRays}
+          moon={moon}
+          onLocationChange={changeLocation}
+          onAzmChange={setAzm}
+          onFootprintSizeChange={setFootprintSize}
+          onPhaseRaysChange={setPhaseRays}
+        />
       </Box>
+
+      {/* Elevation and haze of the clear-sky model */}
+      <AtmosphereSettings lat={lat} atmosphere={atmosphere} onAtmosphereChange={setAtmosphere} />
+
+      {/* Saved places */}
+      <SavedPlaces
+        current={{ lat, lon, azm, surfaces, horizon, albedo, atmosphere, footprintSize }}
+        onLoad={(place) => {
+          setLat(place.lat);
+          setLon(place.lon);
+          setAzm(place.azm);
+          setSurfaces(place.surfaces);
+          setHorizon(place.horizon);
+          setAlbedo(place.albedo);
+          setAtmosphere(place.atmosphere);
+          setFootprintSize(place.footprintSize);
+        }}
+      />
+
+      {/* Year-round exposure */}
+      <SunExposureHeatmap
+        year={parseDay(date).year}
+        timeZone={timeZone}
+        lat={lat}
+        lon={lon}
+        azm={azm}
+        surfaces={surfaces}
+        horizon={horizon}
+        albedo={albedo}
+        atmosphere={atmosphere}
+        onSelect={(day, time) => {
+          setDate(day);
+          setSelectedTime(time);
+        }}
+      />
+
+      {/* Monthly summary */}
+      <MonthlySummaryTable
+        year={parseDay(date).year}
+        timeZone={timeZone}
+        lat={lat}
+        lon={lon}
+        azm={azm}
+        surfaces={surfaces}
+        horizon={horizon}
+        albedo={albedo}
+        atmosphere={atmosphere}
+        clearSkyIndex={clearSkyIndex}
+      />
+
+      {/* Plants suited to the light on each surface */}
+      <PlantSuggestions
+        year={parseDay(date).year}
+        timeZone={timeZone}
+        lat={lat}
+        lon={lon}
+        azm={azm}
+        surfaces={surfaces}
+        horizon={horizon}
+        albedo={albedo}
+        atmosphere={atmosphere}
+        clearSkyIndex={clearSkyIndex}
+      />
+
+      {/* Balcony solar kit */}
+      <PvEstimator
+        sunPositionData={sunPositionData}
+        year={parseDay(date).year}
+        timeZone={timeZone}
+        lat={lat}
+        lon={lon}
+        azm={azm}
+        horizon={horizon}
+        albedo={albedo}
+        atmosphere={atmosphere}
+        system={pvSystem}
+        onSystemChange={setPvSystem}
+        cloudCover={cloudCover}
+        clearSkyIndex={clearSkyIndex}
+      />
+
+      {/* Surfaces */}
+      <SurfaceSettings surfaces={surfaces} azm={azm} onSurfacesChange={setSurfaces} />
+
+      {/* Horizon */}
+      <HorizonEditor horizon={horizon} sunPositionData={sunPositionData} onHorizonChange={setHorizon} />
     </Box>
   );
 };
@@ -0,0 +1,185 @@
+import AddIcon from '@mui/icons-material/Add';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import BalconyIcon from '@mui/icons-material/Balcony';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Box, Button, Divider, IconButton, Paper, TextField, Tooltip, Typography } from '@mui/material';
+import type React from 'react';
+import { useTranslation } from 'react-i18next';
+import { BALCONY_FIELDS, type Balcony, createDefaultBalcony, createSurfaceId, type Surface } from '../solar';
+import { getSurfaceLabel } from './surfaceLabel';
+
+interface SurfaceSettingsProps {
+  surfaces: Surface[];
+  azm: number; // building orientation, used to name surfaces after the direction they face
+  onSurfacesChange: (value: Surface[]) => void;
+}
+
+const SurfaceSettings: React.FC<SurfaceSettingsProps> = ({ surfaces, azm, onSurfacesChange }) => {
+  const { t } = useTranslation();
+
+  const updateSurface = (id: string, changes: Partial<Surface>) => {
+    onSurfacesChange(surfaces.map((surface) => (surface.id === id ? { ...surface, ...changes } : surface)));
+  };
+
+  const moveSurface = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= surfaces.length) return;
+    const reordered = [...surfaces];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onSurfacesChange(reordered);
+  };
+
+  const toggleBalcony = (surface: Surface) => {
+    updateSurface(surface.id, { balcony: surface.balcony ? undefined : createDefaultBalcony() });
+  };
+
+  const updateBalcony = (surface: Surface, field: keyof Balcony, value: number) => {
+    if (!surface.balcony) return;
+    updateSurface(surface.id, { balcony: { ...surface.balcony, [field]: value } });
+  };
+
+  const removeSurface = (id: string) => {
+    onSurfacesChange(surfaces.filter((surface) => surface.id !== id));
+  };
+
+  const addSurface = () => {
+    onSurfacesChange([
+      ...surfaces,
+      {
+        id: createSurfaceId(),
+        name: t('surfaces.newName', { index: surfaces.length + 1 }),
+        color: '#00BCD4',
+        azimuth: 180,
+        tilt: 90,
+      },
+    ]);
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        {t('surfaces.title')}
+      </Typography>
+      <Divider sx={{ mb: 3, mt: 1 }} />
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {surfaces.map((surface, index) => (
+          <Box key={surface.id} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Box sx={{ display: 'flex', flexWrap: { xs: 'wrap', sm: 'nowrap' }, alignItems: 'center', gap: 1 }}>
+              <TextField
+                size="small"
+                type="color"
+                label={t('surfaces.color')}
+                value={surface.color}
+                onChange={(e) => updateSurface(surface.id, { color: e.target.value })}
+                sx={{ width: 72, flexShrink: 0 }}
+              />
+              <TextField
+                size="small"
+                label={t('surfaces.name')}
+                value={surface.name}
+                placeholder={getSurfaceLabel({ ...surface, name: '' }, azm, t)}
+                onChange={(e) => updateSurface(surface.id, { name: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ flex: 1, minWidth: 120 }}
+              />
+              <TextField
+                size="small"
+                label={t('surfaces.azimuth')}
+                type="number"
+                slotProps={{ htmlInput: { step: 1, min: 0, max: 360 } }}
+                value={surface.azimuth}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!Number.isNaN(value) && value >= 0 && value <= 360) {
+                    updateSurface(surface.id, { azimuth: value });
+                  }
+                }}
+                sx={{ width: 110 }}
+              />
+              <TextField
+                size="small"
+                label={t('surfaces.tilt')}
+                type="number"
+                slotProps={{ htmlInput: { step: 1, min: 0, max: 90 } }}
+                value={surface.tilt}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!Number.isNaN(value) && value >= 0 && value <= 90) {
+                    updateSurface(surface.id, { tilt: value });
+                  }
+                }}
+                sx={{ width: 90 }}
+              />
+              <Box sx={{ display: 'flex', flexShrink: 0 }}>
+                <Tooltip title={t('surfaces.balcony.toggle')}>
+                  <IconButton
+                    size="small"
+                    color={surface.balcony ? 'primary' : 'default'}
+                    onClick={() => toggleBalcony(surface)}
+                  >
+                    <BalconyIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={t('surfaces.moveUp')}>
+                  <span>
+                    <IconButton size="small" disabled={index === 0} onClick={() => moveSurface(index, -1)}>
+                      <ArrowUpwardIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={t('surfaces.moveDown')}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      disabled={index === surfaces.length - 1}
+                      onClick={() => moveSurface(index, 1)}
+                    >
+                      <ArrowDownwardIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={t('surfaces.delete')}>
+                  <IconButton size="small" onClick={() => removeSurface(surface.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Box>
+            {surface.balcony && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, pl: { sm: 10 } }}>
+                {BALCONY_FIELDS.map((field) => (
+                  <TextField
+                    key={field}
+                    size="small"
+                    label={t(`surfaces.balcony.${field}`)}
+                    type="number"
+                    slotProps={{ htmlInput: { step: 0.1, min: 0 } }}
+                    value={surface.balcony?.[field]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!Number.isNaN(value) && value >= 0) {
+                        updateBalcony(surface, field, value);
+                      }
+                    }}
+                    sx={{ width: 120 }}
+                  />
+                ))}
+              </Box>
+            )}
+          </Box>
+        ))}
+        <Box>
+          <Button variant="outlined" size="small" startIcon={<AddIcon />} onClick={addSurface}>
+            {t('surfaces.add')}
+          </Button>
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'left' }}>
+          {t('surfaces.helper')}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default SurfaceSettings;
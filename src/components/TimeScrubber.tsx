@@ -0,0 +1,112 @@
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import { Box, IconButton, Paper, Slider, ToggleButton, ToggleButtonGroup, Tooltip, Typography } from '@mui/material';
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import SunCalc from 'suncalc';
+import { formatTime, toCompassBearing } from '../solar';
+import { SELECTED_TIME_COLOR } from './chartColors';
+
+interface TimeScrubberProps {
+  lat: number;
+  lon: number;
+  dayStart: Date;
+  dayEnd: Date;
+  timeZone: string;
+  time: Date | null;
+  onTimeChange: (value: Date) => void;
+}
+
+// Simulated minutes per real second
+const SPEEDS = [15, 60, 180];
+// Minimum real time between two state updates while playing, in ms
+const FRAME_INTERVAL = 100;
+
+const TimeScrubber: React.FC<TimeScrubberProps> = ({ lat, lon, dayStart, dayEnd, timeZone, time, onTimeChange }) => {
+  const { t } = useTranslation();
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+
+  // Outside the displayed day the scrubber rests at its start
+  const value = time && time >= dayStart && time < dayEnd ? time : dayStart;
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      if (now - last >= FRAME_INTERVAL) {
+        const advanced = ((now - last) / 1000) * speed * 60000;
+        last = now;
+        const next = valueRef.current.getTime() + advanced;
+        // Loop back to the start of the day
+        onTimeChange(new Date(next >= dayEnd.getTime() ? dayStart.getTime() : next));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, dayStart, dayEnd, onTimeChange]);
+
+  const position = SunCalc.getPosition(value, lat, lon);
+  const altitude = (position.altitude * 180) / Math.PI;
+
+  return (
+    <Paper elevation={3} sx={{ px: 3, py: 2, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: { xs: 'wrap', sm: 'nowrap' } }}>
+        <Tooltip title={playing ? t('scrubber.pause') : t('scrubber.play')}>
+          <IconButton
+            color="primary"
+            onClick={() => {
+              if (!playing) onTimeChange(value);
+              setPlaying(!playing);
+            }}
+          >
+            {playing ? <PauseIcon /> : <PlayArrowIcon />}
+          </IconButton>
+        </Tooltip>
+        <Slider
+          min={dayStart.getTime()}
+          max={dayEnd.getTime() - 60000}
+          step={60000}
+          value={value.getTime()}
+          onChange={(_, newValue) => onTimeChange(new Date(newValue as number))}
+          valueLabelDisplay="auto"
+          valueLabelFormat={(newValue) => formatTime(new Date(newValue), timeZone)}
+          aria-label={t('scrubber.time')}
+          sx={{ flex: 1, minWidth: 160, color: SELECTED_TIME_COLOR }}
+        />
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={speed}
+          onChange={(_, newSpeed: number | null) => newSpeed !== null && setSpeed(newSpeed)}
+          aria-label={t('scrubber.speed')}
+        >
+          {SPEEDS.map((option) => (
+            <ToggleButton key={option} value={option} sx={{ textTransform: 'none' }}>
+              {option < 60
+                ? t('scrubber.minutesPerSecond', { value: option })
+                : t('scrubber.hoursPerSecond', { value: option / 60 })}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+      <Typography variant="body2" sx={{ mt: 1, fontVariantNumeric: 'tabular-nums' }}>
+        {t('scrubber.readout', {
+          time: formatTime(value, timeZone),
+          altitude: altitude.toFixed(1),
+          azimuth: toCompassBearing(position.azimuth).toFixed(1),
+        })}
+        {altitude <= 0 && ` · ${t('scrubber.belowHorizon')}`}
+      </Typography>
+    </Paper>
+  );
+};
+
+export default TimeScrubber;
@@ -0,0 +1,36 @@
+import type { SunEvent, SunPhase } from '../solar';
+
+// Colors shared by the chart and the map, so a time or event looks the same on both
+export const SELECTED_TIME_COLOR = '#00E5FF';
+
+// Daylight is left clear so the bars stay readable
+export const SUN_PHASE_COLORS: Record<SunPhase, string> = {
+  night: '#0D1B2A',
+  astronomicalTwilight: '#1B2A49',
+  nauticalTwilight: '#283E74',
+  blueHour: '#1565C0',
+  civilTwilight: '#3F5FA8',
+  goldenHour: '#FFA726',
+  day: 'transparent',
+};
+
+// Brighter than the bands, so the ticks stand out on top of them
+export const SUN_EVENT_COLORS: Record<SunEvent, string> = {
+  nightEnd: '#7986CB',
+  nauticalDawn: '#64B5F6',
+  blueHourDawn: '#42A5F5',
+  dawn: '#90CAF9',
+  blueHourEnd: '#2196F3',
+  sunrise: '#ff9800',
+  goldenHourEnd: '#FFCA28',
+  solarNoon: '#F9A825',
+  goldenHour: '#FFCA28',
+  sunset: '#f57c00',
+  blueHour: '#2196F3',
+  dusk: '#90CAF9',
+  blueHourDusk: '#42A5F5',
+  nauticalDusk: '#64B5F6',
+  night: '#7986CB',
+};
+
+export const MOON_COLOR = '#CFD8DC';
@@ -0,0 +1,7 @@
+// Shared horizontal layout of the intensity chart rows, in px
+export const LABEL_WIDTH = 64;
+export const SUMMARY_WIDTH = 88;
+export const ROW_GAP = 8; // gap: 1
+
+// Horizontal offset of the bars from the left edge of the chart
+export const BAR_OFFSET = LABEL_WIDTH + ROW_GAP + SUMMARY_WIDTH + ROW_GAP;
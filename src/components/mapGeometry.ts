@@ -0,0 +1,14 @@
+// Conversions between local east/north offsets in meters and lat/lon coordinates
+// 1 degree latitude ≈ 111,320 meters
+// 1 degree longitude ≈ 111,320 * cos(latitude) meters
+const METERS_PER_DEGREE = 111320;
+
+export const offsetToLatLng = (lat: number, lon: number, [x, y]: [number, number]): [number, number] => [
+  lat + y / METERS_PER_DEGREE,
+  lon + x / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180)),
+];
+
+export const latLngToOffset = (lat: number, lon: number, [pointLat, pointLon]: [number, number]): [number, number] => [
+  (pointLon - lon) * METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180),
+  (pointLat - lat) * METERS_PER_DEGREE,
+];
@@ -0,0 +1,10 @@
+import type { TFunction } from 'i18next';
+import { getCompassPoint, getSurfaceBearing, type Surface } from '../solar';
+
+// User-defined names win over the compass direction the surface actually faces, tilted surfaces also show their tilt
+export const getSurfaceLabel = (surface: Surface, azm: number, t: TFunction): string => {
+  if (surface.name) return surface.name;
+  if (surface.tilt === 0) return surface.preset === 'roof' ? t('chart.surfaces.roof') : t('surfaces.unnamed');
+  const direction = t(`compass.${getCompassPoint(getSurfaceBearing(surface, azm))}`);
+  return surface.tilt === 90 ? direction : `${direction} ${surface.tilt}°`;
+};
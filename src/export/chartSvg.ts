@@ -0,0 +1,128 @@
+import { formatTime, getZonedParts, type IntensitySample, type IrradianceComponent, zonedTimeToDate } from '../solar';
+import { escapeXml, fmt, svgDocument } from './svg';
+
+export interface ChartSvgRow {
+  label: string;
+  color: string;
+  samples: IntensitySample[];
+  summary: string[]; // lines of text shown between the label and the bar
+}
+
+export interface ChartSvgOptions {
+  title: string;
+  rows: ChartSvgRow[];
+  components: IrradianceComponent[]; // stacked bottom to top
+  componentColors: Record<IrradianceComponent, string>;
+  dayStart: Date;
+  dayEnd: Date;
+  sunTimes: { sunrise: Date; sunset: Date } | null;
+  timeZone: string;
+  width?: number;
+}
+
+const PADDING = 16;
+const TITLE_HEIGHT = 32;
+const AXIS_HEIGHT = 40;
+const LABEL_WIDTH = 96;
+const SUMMARY_WIDTH = 96;
+const ROW_HEIGHT = 20;
+const ROW_GAP = 8;
+const QUARTER_HOUR = 15 * 60000; // ms
+const SUNRISE_COLOR = '#ff9800';
+const SUNSET_COLOR = '#f57c00';
+
+/**
+ * Render the intensity chart as a standalone SVG, mirroring the on-screen bars and axis
+ * @param options Rows, time span and styling of the chart
+ * @returns SVG document text and its size in pixels
+ */
+export const renderChartSvg = ({
+  title,
+  rows,
+  components,
+  componentColors,
+  dayStart,
+  dayEnd,
+  sunTimes,
+  timeZone,
+  width = 960,
+}: ChartSvgOptions): { svg: string; width: number; height: number } => {
+  const barLeft = PADDING + LABEL_WIDTH + ROW_GAP + SUMMARY_WIDTH + ROW_GAP;
+  const barWidth = width - barLeft - PADDING;
+  const axisTop = PADDING + TITLE_HEIGHT;
+  const rowsTop = axisTop + AXIS_HEIGHT;
+  const height = rowsTop + rows.length * (ROW_HEIGHT + ROW_GAP) + PADDING;
+  const span = dayEnd.getTime() - dayStart.getTime();
+  const toX = (time: Date | number) => barLeft + ((Number(time) - dayStart.getTime()) / span) * barWidth;
+
+  const parts: string[] = [
+    `<defs><pattern id="obstructed" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">` +
+      `<rect width="6" height="6" fill="rgba(60,60,75,0.55)"/><rect width="3" height="6" fill="rgba(120,120,140,0.55)"/></pattern></defs>`,
+    `<text x="${PADDING}" y="${PADDING + 20}" font-size="20" fill="#fff">${escapeXml(title)}</text>`,
+  ];
+
+  // Axis: quarter-hour ticks, full hours of the local clock emphasized, labels every 6h
+  const tickTop = axisTop + AXIS_HEIGHT - ROW_HEIGHT - ROW_GAP;
+  for (let time = dayStart.getTime(); time <= dayEnd.getTime(); time += QUARTER_HOUR) {
+    const hour = getZonedParts(new Date(time), timeZone).minute === 0;
+    parts.push(
+      `<rect x="${fmt(toX(time) - (hour ? 1.5 : 0.5))}" y="${tickTop}" width="${hour ? 3 : 1}" height="${ROW_HEIGHT}" fill="${hour ? '#fff' : '#888'}"/>`,
+    );
+  }
+  const { year, month, day } = getZonedParts(dayStart, timeZone);
+  for (const hour of [0, 6, 12, 18]) {
+    const x = toX(zonedTimeToDate({ year, month, day, hour, minute: 0 }, timeZone));
+    parts.push(
+      `<text x="${fmt(x)}" y="${tickTop - 4}" font-size="13" fill="#fff" text-anchor="middle">${String(hour).padStart(2, '0')}:00</text>`,
+    );
+  }
+  if (sunTimes) {
+    for (const [time, color] of [
+      [sunTimes.sunrise, SUNRISE_COLOR],
+      [sunTimes.sunset, SUNSET_COLOR],
+    ] as const) {
+      if (Number.isNaN(time.getTime())) continue;
+      const x = toX(time);
+      parts.push(
+        `<rect x="${fmt(x - 1.5)}" y="${tickTop}" width="3" height="${ROW_HEIGHT}" fill="${color}"/>`,
+        `<rect x="${fmt(x - 22)}" y="${tickTop - 18}" width="44" height="16" rx="3" fill="${color}"/>`,
+        `<text x="${fmt(x)}" y="${tickTop - 6}" font-size="12" font-weight="700" fill="#fff" text-anchor="middle">${formatTime(time, timeZone)}</text>`,
+      );
+    }
+  }
+
+  rows.forEach(({ label, color, samples, summary }, rowIndex) => {
+    const top = rowsTop + rowIndex * (ROW_HEIGHT + ROW_GAP);
+    const sampleWidth = barWidth / Math.max(1, samples.length);
+
+    parts.push(
+      `<rect x="${PADDING}" y="${top}" width="${LABEL_WIDTH}" height="${ROW_HEIGHT}" rx="3" fill="${escapeXml(color)}"/>`,
+      `<text x="${PADDING + LABEL_WIDTH / 2}" y="${top + 14}" font-size="12" font-weight="700" fill="#fff" text-anchor="middle" stroke="#000" stroke-width="2" paint-order="stroke">${escapeXml(label)}</text>`,
+      ...summary.map(
+        (line, lineIndex) =>
+          `<text x="${PADDING + LABEL_WIDTH + ROW_GAP}" y="${top + 9 + lineIndex * 10}" font-size="9" fill="#fff">${escapeXml(line)}</text>`,
+      ),
+      `<rect x="${barLeft}" y="${top}" width="${fmt(barWidth)}" height="${ROW_HEIGHT}" rx="4" fill="rgba(255,255,255,0.1)"/>`,
+    );
+
+    samples.forEach((sample, index) => {
+      const x = fmt(barLeft + index * sampleWidth);
+      const w = fmt(sampleWidth + 0.25); // slight overlap avoids hairline seams
+      if (sample.obstructed) {
+        parts.push(`<rect x="${x}" y="${top}" width="${w}" height="${ROW_HEIGHT}" fill="url(#obstructed)"/>`);
+      }
+      let stacked = 0;
+      for (const component of components) {
+        const bottom = stacked;
+        stacked = Math.min(1, stacked + sample[component]);
+        if (stacked > bottom) {
+          parts.push(
+            `<rect x="${x}" y="${fmt(top + ROW_HEIGHT * (1 - stacked))}" width="${w}" height="${fmt(ROW_HEIGHT * (stacked - bottom))}" fill="${componentColors[component]}"/>`,
+          );
+        }
+      }
+    });
+  });
+
+  return { svg: svgDocument(width, height, parts.join('')), width, height };
+};
@@ -0,0 +1,16 @@
+/**
+ * Let the browser save generated content as a file
+ * @param filename Suggested file name
+ * @param content File content
+ * @param mimeType Content type
+ */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
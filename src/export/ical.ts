@@ -0,0 +1,73 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+}
+
+const PRODUCT_ID = '-//balcon//Sun windows//EN';
+const MAX_LINE_OCTETS = 75;
+
+// RFC 5545 UTC date-time, e.g. 20250621T043000Z
+const formatDateTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets, without splitting multi-byte characters
+ * @param line Unfolded content line
+ * @returns Folded line, continuation lines start with a space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(chunk + char).length > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Serialize events as an iCalendar (RFC 5545) file
+ * @param name Calendar name shown by calendar applications
+ * @param events Events with UTC start and end
+ * @param stamp Creation instant recorded on every event
+ * @returns iCalendar text with CRLF line endings
+ */
+export const buildICalendar = (name: string, events: CalendarEvent[], stamp = new Date()): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(({ uid, start, end, summary, description }) => [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${formatDateTime(stamp)}`,
+      `DTSTART:${formatDateTime(start)}`,
+      `DTEND:${formatDateTime(end)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n')
+    .concat('\r\n');
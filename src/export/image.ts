@@ -0,0 +1,39 @@
+/**
+ * Rasterize an SVG document into a PNG image
+ * @param svg SVG document text
+ * @param width Width of the SVG in pixels
+ * @param height Height of the SVG in pixels
+ * @param scale Pixel ratio of the output, 2 keeps text sharp on print and high density screens
+ * @returns PNG image
+ */
+export const svgToPng = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be loaded'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Encode an SVG document as a data URL, e.g. for an <img> preview
+ * @param svg SVG document text
+ * @returns Data URL
+ */
+export const svgToDataUrl = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
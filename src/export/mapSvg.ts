@@ -0,0 +1,76 @@
+import { formatTime, getSurfaceOutline, type SunRay, type Surface } from '../solar';
+import { escapeXml, fmt, svgDocument } from './svg';
+
+export interface MapSvgOptions {
+  azm: number;
+  surfaces: Surface[];
+  rays: SunRay[];
+  timeZone: string;
+  compassLabels: [string, string, string, string]; // N, E, S, W
+  size?: number;
+}
+
+const RAY_COLOR = '#FFD700';
+const SUNRISE_COLOR = '#FF6B35';
+const SUNSET_COLOR = '#FF8C42';
+
+/**
+ * Render a top-down snapshot of the building footprint and the day's sun rays as a standalone SVG
+ * The footprint is enlarged with respect to the rays so that every surface stays readable.
+ * @param options Footprint, rays and styling of the snapshot
+ * @returns SVG document text and its size in pixels
+ */
+export const renderMapSvg = ({
+  azm,
+  surfaces,
+  rays,
+  timeZone,
+  compassLabels,
+  size = 480,
+}: MapSvgOptions): { svg: string; width: number; height: number } => {
+  const center = size / 2;
+  const radius = size / 2 - 48; // room for the compass labels
+  const footprintScale = (size * 0.16) / 10; // pixels per meter of footprint
+  // East/north offsets to SVG coordinates, y grows downwards
+  const toPoint = (x: number, y: number) => `${fmt(center + x)},${fmt(center - y)}`;
+
+  const parts: string[] = [
+    `<circle cx="${center}" cy="${center}" r="${radius}" fill="none" stroke="rgba(255,255,255,0.25)" stroke-dasharray="4 4"/>`,
+  ];
+
+  compassLabels.forEach((label, index) => {
+    const angle = (index * Math.PI) / 2;
+    const x = Math.sin(angle) * (radius + 20);
+    const y = Math.cos(angle) * (radius + 20);
+    parts.push(
+      `<text x="${fmt(center + x)}" y="${fmt(center - y + 5)}" font-size="14" font-weight="700" fill="#fff" text-anchor="middle">${escapeXml(label)}</text>`,
+    );
+  });
+
+  // Rays come from the sun towards the location, longer when the sun is low
+  for (const { time, position, event } of rays) {
+    const length = radius * Math.cos(position.altitude);
+    // SunCalc azimuth is measured from South towards West
+    const x = -Math.sin(position.azimuth) * length;
+    const y = -Math.cos(position.azimuth) * length;
+    const color = event === 'sunrise' ? SUNRISE_COLOR : event === 'sunset' ? SUNSET_COLOR : RAY_COLOR;
+    parts.push(
+      `<line x1="${center}" y1="${center}" x2="${fmt(center + x)}" y2="${fmt(center - y)}" stroke="${color}" stroke-width="${event ? 3 : 1.5}" stroke-dasharray="${event ? '10 5' : '5 5'}" opacity="0.8"/>`,
+      `<text x="${fmt(center + x)}" y="${fmt(center - y)}" font-size="10" font-weight="700" fill="${color}" text-anchor="middle">${formatTime(time, timeZone)}</text>`,
+    );
+  }
+
+  for (const surface of surfaces) {
+    const { flat, points } = getSurfaceOutline(surface, azm);
+    const coordinates = points.map(([x, y]) => toPoint(x * footprintScale, y * footprintScale)).join(' ');
+    const color = escapeXml(surface.color);
+    parts.push(
+      flat
+        ? `<polygon points="${coordinates}" fill="${color}" fill-opacity="0.2" stroke="${color}" stroke-width="2"/>`
+        : `<polyline points="${coordinates}" fill="none" stroke="${color}" stroke-width="6" stroke-linecap="round"${surface.tilt < 90 ? ' stroke-dasharray="8 6"' : ''}/>`,
+    );
+  }
+  parts.push(`<circle cx="${center}" cy="${center}" r="4" fill="#fff"/>`);
+
+  return { svg: svgDocument(size, size, parts.join('')), width: size, height: size };
+};
@@ -0,0 +1,63 @@
+import { escapeXml } from './svg';
+
+export interface ReportContent {
+  lang: string;
+  title: string;
+  details: [string, string][]; // label/value pairs describing the location and date
+  table: { headers: string[]; rows: string[][] };
+  images: { caption: string; svg: string }[];
+}
+
+/**
+ * Build a printable HTML page from the report content
+ * Images are embedded inline so the page needs no network access to print.
+ * @param content Report texts, summary table and SVG images
+ * @returns HTML document text
+ */
+export const buildReportHtml = ({ lang, title, details, table, images }: ReportContent): string => `<!doctype html>
+<html lang="${escapeXml(lang)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: Roboto, Helvetica, Arial, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 22px; margin: 0 0 12px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 16px; }
+  dt { font-weight: 700; }
+  dd { margin: 0; }
+  table { border-collapse: collapse; margin: 0 0 16px; font-size: 13px; }
+  th, td { border: 1px solid #bbb; padding: 4px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  figure { margin: 0 0 16px; break-inside: avoid; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption { font-size: 12px; color: #555; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<dl>${details.map(([label, value]) => `<dt>${escapeXml(label)}</dt><dd>${escapeXml(value)}</dd>`).join('')}</dl>
+<table>
+<thead><tr>${table.headers.map((header) => `<th>${escapeXml(header)}</th>`).join('')}</tr></thead>
+<tbody>${table.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeXml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>
+${images.map(({ caption, svg }) => `<figure>${svg}<figcaption>${escapeXml(caption)}</figcaption></figure>`).join('\n')}
+</body>
+</html>
+`;
+
+/**
+ * Open the report in a new window and bring up the print dialog
+ * @param html HTML document text
+ * @returns Whether the window could be opened (it may be blocked by the browser)
+ */
+export const printReport = (html: string): boolean => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) return false;
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+};
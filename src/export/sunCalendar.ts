@@ -0,0 +1,81 @@
+import SunCalc from 'suncalc';
+import {
+  calculateIntensitySeries,
+  findSunWindows,
+  getSeriesBounds,
+  parseDay,
+  SOLAR_CONSTANT,
+  sampleDay,
+  zonedTimeToDate,
+} from '../solar';
+import type { CalendarEvent } from './ical';
+import { type ExportSurface, getDayRange } from './sunData';
+
+export interface SunCalendarRequest {
+  from: string; // first day, YYYY-MM-DD
+  to: string; // last day, YYYY-MM-DD
+  lat: number;
+  lon: number;
+  timeZone: string;
+  surface: ExportSurface & { index: number }; // position in the surface list, stable across sessions unlike the id
+  threshold: number; // minimum direct irradiance in W/m²
+  includeSunEvents: boolean; // add sunrise and sunset as events
+  summaries: { window: string; sunrise: string; sunset: string };
+  description: string;
+}
+
+const SUN_EVENT_DURATION = 60000; // ms, sunrise and sunset are shown as one-minute events
+
+/**
+ * Build calendar events for the periods when a surface receives direct sun over a range of days
+ * @param request Location, range, surface, threshold and event texts
+ * @returns Events in time order
+ */
+export const buildSunCalendarEvents = ({
+  from,
+  to,
+  lat,
+  lon,
+  timeZone,
+  surface,
+  threshold,
+  includeSunEvents,
+  summaries,
+  description,
+}: SunCalendarRequest): CalendarEvent[] =>
+  getDayRange(from, to).flatMap((day) => {
+    const sunPositions = sampleDay(day, lat, lon, timeZone);
+    const samples = calculateIntensitySeries(
+      sunPositions,
+      surface.sideAzimuth,
+      surface.surfaceAltitude,
+      surface.options,
+    );
+    const windows = findSunWindows(samples, threshold / SOLAR_CONSTANT, getSeriesBounds(sunPositions).end);
+    // Built from the inputs only, so exporting the same calendar again updates the events instead of duplicating them
+    const events: CalendarEvent[] = windows.map(({ start, end }, index) => ({
+      uid: `window-${surface.index}-${index}-${day}-${lat.toFixed(4)}-${lon.toFixed(4)}@balcon`,
+      start,
+      end,
+      summary: summaries.window,
+      description,
+    }));
+
+    if (includeSunEvents) {
+      const noon = zonedTimeToDate({ ...parseDay(day), hour: 12, minute: 0 }, timeZone);
+      const { sunrise, sunset } = SunCalc.getTimes(noon, lat, lon);
+      for (const [key, time] of [
+        ['sunrise', sunrise],
+        ['sunset', sunset],
+      ] as const) {
+        if (Number.isNaN(time.getTime())) continue;
+        events.push({
+          uid: `${key}-${day}-${lat.toFixed(4)}-${lon.toFixed(4)}@balcon`,
+          start: time,
+          end: new Date(time.getTime() + SUN_EVENT_DURATION),
+          summary: summaries[key],
+        });
+      }
+    }
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  });
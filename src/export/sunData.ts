@@ -0,0 +1,163 @@
+import {
+  type Atmosphere,
+  addDays,
+  calculateClearSky,
+  calculateIntensitySeries,
+  calculateSiteAirMass,
+  formatDayParts,
+  formatTime,
+  getZonedParts,
+  type IntensityOptions,
+  isValidDay,
+  parseDay,
+  SOLAR_CONSTANT,
+  sampleDay,
+  toCompassBearing,
+} from '../solar';
+
+export type ExportFormat = 'csv' | 'json';
+
+// Longest range accepted by buildSunDataRecords, in days
+export const MAX_EXPORT_DAYS = 366;
+
+export interface ExportSurface {
+  label: string;
+  sideAzimuth: number; // in radians, SunCalc convention
+  surfaceAltitude: number; // in radians (0 = vertical, π/2 = horizontal)
+  options: IntensityOptions;
+}
+
+export interface SunDataRequest {
+  from: string; // first day, YYYY-MM-DD
+  to: string; // last day, YYYY-MM-DD
+  lat: number;
+  lon: number;
+  timeZone: string;
+  intervalMinutes: number;
+  surfaces: ExportSurface[];
+  atmosphere: Atmosphere; // for the air mass and transmittance columns
+}
+
+export interface SunDataRecord {
+  timestamp: string; // ISO 8601, UTC
+  localTime: string; // YYYY-MM-DD HH:MM in the location's time zone
+  sunAzimuth: number; // compass bearing in degrees
+  sunAltitude: number; // in degrees
+  airMass: number | null; // pressure-corrected, null while the sun is below the horizon
+  transmittance: number; // clear-sky beam normal irradiance as a fraction of the solar constant
+  intensities: number[]; // global irradiance in W/m², one per surface
+}
+
+/**
+ * List the days of an inclusive range
+ * @param from First day
+ * @param to Last day
+ * @returns Days as YYYY-MM-DD, empty when a bound is not a valid day, the range is reversed or longer than MAX_EXPORT_DAYS
+ */
+export const getDayRange = (from: string, to: string): string[] => {
+  if (!isValidDay(from) || !isValidDay(to)) return [];
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    if (days.length === MAX_EXPORT_DAYS) return [];
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Compute the sun position and surface intensities over a range of days
+ * @param request Location, range, sampling interval and surfaces
+ * @returns One record per sample
+ */
+export const buildSunDataRecords = ({
+  from,
+  to,
+  lat,
+  lon,
+  timeZone,
+  intervalMinutes,
+  surfaces,
+  atmosphere,
+}: SunDataRequest): SunDataRecord[] =>
+  getDayRange(from, to).flatMap((day) => {
+    const sunPositions = sampleDay(day, lat, lon, timeZone, intervalMinutes);
+    const turbidity = atmosphere.turbidity[parseDay(day).month - 1];
+    const series = surfaces.map((surface) =>
+      calculateIntensitySeries(sunPositions, surface.sideAzimuth, surface.surfaceAltitude, surface.options),
+    );
+
+    return sunPositions.map(({ time, position }, index) => {
+      const airMass = calculateSiteAirMass(position.altitude, atmosphere);
+      return {
+        timestamp: time.toISOString(),
+        localTime: `${formatDayParts(getZonedParts(time, timeZone))} ${formatTime(time, timeZone)}`,
+        sunAzimuth: toCompassBearing(position.azimuth),
+        sunAltitude: (position.altitude * 180) / Math.PI,
+        airMass: Number.isFinite(airMass) ? airMass : null,
+        transmittance: calculateClearSky(position.altitude, atmosphere, turbidity).beamNormal,
+        intensities: series.map((samples) => samples[index].intensity * SOLAR_CONSTANT),
+      };
+    });
+  });
+
+const escapeCsv = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+/**
+ * Serialize records as CSV, one column per surface after the sun columns
+ * @param records Records from buildSunDataRecords
+ * @param surfaceLabels Column titles of the surfaces
+ * @returns CSV text
+ */
+export const toCsv = (records: SunDataRecord[], surfaceLabels: string[]): string => {
+  const header = [
+    'timestamp',
+    'local_time',
+    'sun_azimuth_deg',
+    'sun_altitude_deg',
+    'air_mass',
+    'transmittance',
+    ...surfaceLabels.map((label) => `${label} (W/m²)`),
+  ];
+  const lines = records.map((record) =>
+    [
+      record.timestamp,
+      record.localTime,
+      round(record.sunAzimuth, 2),
+      round(record.sunAltitude, 2),
+      record.airMass === null ? '' : round(record.airMass, 3),
+      round(record.transmittance, 4),
+      ...record.intensities.map((intensity) => round(intensity, 1)),
+    ].join(','),
+  );
+  return `${[header.map(escapeCsv).join(','), ...lines].join('\n')}\n`;
+};
+
+/**
+ * Serialize records as JSON, alongside the parameters they were computed with
+ * @param records Records from buildSunDataRecords
+ * @param request Parameters used to compute the records
+ * @returns JSON text
+ */
+export const toJson = (records: SunDataRecord[], request: SunDataRequest): string =>
+  JSON.stringify(
+    {
+      location: { lat: request.lat, lon: request.lon, timeZone: request.timeZone },
+      range: { from: request.from, to: request.to, intervalMinutes: request.intervalMinutes },
+      surfaces: request.surfaces.map(({ label, sideAzimuth, surfaceAltitude }) => ({
+        label,
+        sideAzimuth,
+        surfaceAltitude,
+      })),
+      atmosphere: request.atmosphere,
+      units: { sunAzimuth: 'deg', sunAltitude: 'deg', intensities: 'W/m²' },
+      records: records.map((record) => ({
+        ...record,
+        // Surfaces are referenced by their position in the list above, labels need not be unique
+        intensities: record.intensities.map((intensity, index) => ({ surface: index, value: round(intensity, 1) })),
+      })),
+    },
+    null,
+    2,
+  );
@@ -0,0 +1,24 @@
+export const SVG_BACKGROUND = '#101725';
+export const SVG_FONT = 'Roboto, Helvetica, Arial, sans-serif';
+
+/**
+ * Escape text for use inside SVG/HTML content and attribute values
+ * @param text Raw text
+ * @returns Escaped text
+ */
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Wrap SVG content into a standalone document
+ * @param width Width in pixels
+ * @param height Height in pixels
+ * @param content SVG elements
+ * @returns SVG document text
+ */
+export const svgDocument = (width: number, height: number, content: string): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${SVG_FONT}">` +
+  `<rect width="${width}" height="${height}" fill="${SVG_BACKGROUND}"/>${content}</svg>`;
+
+// Keep coordinates short in the output
+export const fmt = (value: number): string => String(Math.round(value * 100) / 100);
@@ -0,0 +1,24 @@
+import type { Geocoder, GeocodingResult } from './types';
+
+// Small offline gazetteer, enough to demo and test the search without network access
+export const FIXTURE_PLACES: GeocodingResult[] = [
+  { id: 'giza', label: 'Great Pyramid of Giza, Giza, Egypt', lat: 29.9792, lon: 31.1342 },
+  { id: 'rome', label: 'Colosseo, Roma, Italia', lat: 41.8902, lon: 12.4922 },
+  { id: 'milan', label: 'Duomo di Milano, Milano, Italia', lat: 45.4642, lon: 9.1916 },
+  { id: 'tokyo', label: 'Tokyo Tower, Minato, Tokyo, Japan', lat: 35.6586, lon: 139.7454 },
+  { id: 'sydney', label: 'Sydney Opera House, Sydney, Australia', lat: -33.8568, lon: 151.2153 },
+  { id: 'reykjavik', label: 'Hallgrímskirkja, Reykjavík, Iceland', lat: 64.1417, lon: -21.9266 },
+];
+
+/**
+ * Geocoder answering from a fixed list of places, matching every word of the query against the labels
+ * @param places Places to search
+ * @returns Geocoder
+ */
+export const createFixtureGeocoder = (places: GeocodingResult[] = FIXTURE_PLACES): Geocoder => ({
+  search: async (query) => {
+    const words = query.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+    return places.filter(({ label }) => words.every((word) => label.toLocaleLowerCase().includes(word)));
+  },
+});
@@ -0,0 +1,17 @@
+import { createFixtureGeocoder } from './fixture';
+import { createNominatimGeocoder } from './nominatim';
+import type { Geocoder } from './types';
+
+export { createFixtureGeocoder, FIXTURE_PLACES } from './fixture';
+export { createNominatimGeocoder, NOMINATIM_URL } from './nominatim';
+export type { Geocoder, GeocodingOptions, GeocodingResult } from './types';
+
+/**
+ * Geocoder selected by the build environment
+ * PUBLIC_GEOCODER is either "nominatim" (default, using PUBLIC_GEOCODER_URL when set) or "fixture".
+ * @returns Geocoder
+ */
+export const createGeocoder = (): Geocoder =>
+  import.meta.env.PUBLIC_GEOCODER === 'fixture'
+    ? createFixtureGeocoder()
+    : createNominatimGeocoder(import.meta.env.PUBLIC_GEOCODER_URL || undefined);
@@ -0,0 +1,42 @@
+import type { Geocoder, GeocodingResult } from './types';
+
+export const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+interface NominatimPlace {
+  place_id: number | string;
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+/**
+ * Geocoder backed by a Nominatim-compatible /search endpoint
+ * @param baseUrl Root URL of the service
+ * @param limit Maximum number of results per search
+ * @returns Geocoder
+ */
+export const createNominatimGeocoder = (baseUrl = NOMINATIM_URL, limit = 5): Geocoder => ({
+  search: async (query, { language, signal } = {}) => {
+    const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('limit', String(limit));
+    if (language) url.searchParams.set('accept-language', language);
+
+    const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Geocoding request failed with status ${response.status}`);
+    }
+    const places = (await response.json()) as NominatimPlace[];
+    return places
+      .map(
+        (place): GeocodingResult => ({
+          id: String(place.place_id),
+          label: place.display_name,
+          lat: parseFloat(place.lat),
+          lon: parseFloat(place.lon),
+        }),
+      )
+      .filter(({ lat, lon }) => !Number.isNaN(lat) && !Number.isNaN(lon));
+  },
+});
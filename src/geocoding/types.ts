@@ -0,0 +1,16 @@
+export interface GeocodingResult {
+  id: string;
+  label: string; // human-readable place name, as returned by the provider
+  lat: number;
+  lon: number;
+}
+
+export interface GeocodingOptions {
+  language?: string; // preferred language of the labels, as a BCP 47 tag
+  signal?: AbortSignal; // lets callers drop searches superseded by newer input
+}
+
+// Anything able to turn free text into coordinates
+export interface Geocoder {
+  search: (query: string, options?: GeocodingOptions) => Promise<GeocodingResult[]>;
+}
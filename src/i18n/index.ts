@@ -2,15 +2,20 @@ import i18n from 'i18next';
 import LanguageDetector from 'i18next-browser-languagedetector';
 import { initReactI18next } from 'react-i18next';
 
+import plantsEn from '../plants/locales/en.json';
+import plantsIt from '../plants/locales/it.json';
 import en from './locales/en.json';
 import it from './locales/it.json';
 
+// Plant names and care notes are kept in their own namespace, next to the catalogue
 const resources = {
   en: {
     translation: en,
+    plants: plantsEn,
   },
   it: {
     translation: it,
+    plants: plantsIt,
   },
 };
 
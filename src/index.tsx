@@ -1,13 +1,18 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { expandShortLink } from './share';
 
 const rootEl = document.getElementById('root');
 if (rootEl) {
   const root = ReactDOM.createRoot(rootEl);
-  root.render(
-    <React.StrictMode>
-      <App />
-    </React.StrictMode>,
-  );
+  // Short links are unpacked into the address bar first, the app reads its state from there
+  expandShortLink(window.location.search).then((search) => {
+    if (search !== null) window.history.replaceState({}, '', `${window.location.pathname}?${search}`);
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>,
+    );
+  });
 }
@@ -0,0 +1,10 @@
+export type { PlaceSettings, SavedPlace } from './places';
+export {
+  createPlaceId,
+  exportPlaces,
+  importPlaces,
+  loadPlaces,
+  mergePlaces,
+  parsePlace,
+  storePlaces,
+} from './places';
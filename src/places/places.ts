@@ -0,0 +1,131 @@
+import {
+  type Atmosphere,
+  createDefaultAtmosphere,
+  type HorizonProfile,
+  MAX_FOOTPRINT_SIZE,
+  MIN_FOOTPRINT_SIZE,
+  parseAtmosphere,
+  parseHorizon,
+  parseSurfaces,
+  type Surface,
+  serializeHorizon,
+} from '../solar';
+
+// Everything needed to bring back a location as it was configured
+export interface PlaceSettings {
+  lat: number;
+  lon: number;
+  azm: number;
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  footprintSize: number;
+}
+
+export interface SavedPlace extends PlaceSettings {
+  id: string;
+  name: string;
+  notes: string;
+  savedAt: string; // ISO 8601
+}
+
+const STORAGE_KEY = 'balcon.places';
+const FILE_VERSION = 1;
+
+export const createPlaceId = (): string => crypto.randomUUID();
+
+const isNumberInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+/**
+ * Validate a saved place read from storage or a file
+ * @param value Untrusted value
+ * @returns The place, or null if it is malformed
+ */
+export const parsePlace = (value: unknown): SavedPlace | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const { id, name, notes, savedAt, lat, lon, azm, albedo, footprintSize } = record;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof notes !== 'string') return null;
+  if (typeof savedAt !== 'string' || Number.isNaN(Date.parse(savedAt))) return null;
+  if (!isNumberInRange(lat, -90, 90) || !isNumberInRange(lon, -180, 180) || !isNumberInRange(azm, 0, 360)) return null;
+  if (!isNumberInRange(albedo, 0, 1) || !isNumberInRange(footprintSize, MIN_FOOTPRINT_SIZE, MAX_FOOTPRINT_SIZE))
+    return null;
+  // Horizons are stored in their compact query string form
+  const horizon = typeof record.horizon === 'string' ? parseHorizon(record.horizon) : null;
+  const surfaces = parseSurfaces(record.surfaces);
+  // Places saved before the atmosphere could be set get the default one
+  const atmosphere =
+    record.atmosphere === undefined ? createDefaultAtmosphere(lat) : parseAtmosphere(record.atmosphere);
+  if (!horizon || !surfaces || !atmosphere) return null;
+
+  return { id, name, notes, savedAt, lat, lon, azm, surfaces, horizon, albedo, atmosphere, footprintSize };
+};
+
+const toStoredPlace = (place: SavedPlace) => ({ ...place, horizon: serializeHorizon(place.horizon) });
+
+/**
+ * Read the saved places from localStorage, skipping any entry that does not validate
+ * @returns Saved places, empty if storage is unavailable or empty
+ */
+export const loadPlaces = (): SavedPlace[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.map(parsePlace).filter((place) => place !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Write the saved places to localStorage
+ * @param places Saved places
+ * @returns Whether they could be stored (storage may be full or disabled)
+ */
+export const storePlaces = (places: SavedPlace[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(places.map(toStoredPlace)));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Serialize saved places into a file that can be imported back
+ * @param places Saved places
+ * @returns JSON text
+ */
+export const exportPlaces = (places: SavedPlace[]): string =>
+  JSON.stringify({ version: FILE_VERSION, places: places.map(toStoredPlace) }, null, 2);
+
+/**
+ * Read saved places from an exported file
+ * @param text JSON text
+ * @returns The places, or null if the file is not a valid export
+ */
+export const importPlaces = (text: string): SavedPlace[] | null => {
+  try {
+    const file = JSON.parse(text);
+    if (file?.version !== FILE_VERSION || !Array.isArray(file.places)) return null;
+    const places = file.places.map(parsePlace);
+    return places.every((place: SavedPlace | null) => place !== null) ? places : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Merge imported places into the list, imported entries replace saved ones with the same id
+ * @param places Saved places
+ * @param imported Imported places
+ * @returns Merged list, keeping the order of the saved places
+ */
+export const mergePlaces = (places: SavedPlace[], imported: SavedPlace[]): SavedPlace[] => {
+  const importedById = new Map(imported.map((place) => [place.id, place]));
+  return [
+    ...places.map((place) => importedById.get(place.id) ?? place),
+    ...imported.filter((place) => !places.some(({ id }) => id === place.id)),
+  ];
+};
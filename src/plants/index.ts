@@ -0,0 +1,2 @@
+export type { Plant, PlantCategory, PlantSuggestion } from './plants';
+export { getGrowingSeason, MIN_SEASON_MATCH, PLANTS, suggestPlants } from './plants';
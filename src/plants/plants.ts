@@ -0,0 +1,52 @@
+import type { LightLevel } from '../solar';
+import catalogue from './catalogue.json';
+
+export type PlantCategory = 'herb' | 'vegetable' | 'flower' | 'shrub' | 'foliage' | 'climber' | 'succulent';
+
+// Names and care notes live in the 'plants' translation namespace, keyed by id
+export interface Plant {
+  id: string;
+  category: PlantCategory;
+  light: LightLevel[]; // light categories the plant grows well in
+  months: number[]; // growing season in the northern hemisphere, 1 = January
+}
+
+export interface PlantSuggestion {
+  plant: Plant;
+  matchingMonths: number; // months of the growing season with suitable light
+  seasonMonths: number;
+}
+
+export const PLANTS = catalogue as Plant[];
+
+// Share of the growing season with suitable light for a plant to be suggested
+export const MIN_SEASON_MATCH = 0.75;
+
+/**
+ * Months of a plant's growing season at a latitude, shifted by half a year south of the equator
+ * @param plant Plant
+ * @param lat Latitude in degrees
+ * @returns Month indices, 0 = January
+ */
+export const getGrowingSeason = (plant: Plant, lat: number): number[] =>
+  plant.months.map((month) => (lat >= 0 ? month - 1 : (month + 5) % 12));
+
+/**
+ * Suggest plants for a surface from its light month by month
+ * @param levels Light category of each month, January first
+ * @param lat Latitude in degrees
+ * @param plants Catalogue to pick from
+ * @returns Plants whose growing season mostly gets suitable light, best fitting first
+ */
+export const suggestPlants = (levels: LightLevel[], lat: number, plants: Plant[] = PLANTS): PlantSuggestion[] =>
+  plants
+    .map((plant) => {
+      const season = getGrowingSeason(plant, lat);
+      return {
+        plant,
+        matchingMonths: season.filter((month) => plant.light.includes(levels[month])).length,
+        seasonMonths: season.length,
+      };
+    })
+    .filter(({ matchingMonths, seasonMonths }) => matchingMonths >= seasonMonths * MIN_SEASON_MATCH)
+    .sort((a, b) => b.matchingMonths / b.seasonMonths - a.matchingMonths / a.seasonMonths);
@@ -0,0 +1,9 @@
+export type { UrlState } from './urlState';
+export {
+  buildShareUrl,
+  buildShortShareUrl,
+  expandShortLink,
+  readUrlState,
+  URL_STATE_VERSION,
+  writeUrlState,
+} from './urlState';
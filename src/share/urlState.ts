@@ -0,0 +1,355 @@
+import {
+  type Atmosphere,
+  BALCONY_FIELDS,
+  type ComparisonConfig,
+  createDefaultAtmosphere,
+  createDefaultSurfaces,
+  createSurfaceId,
+  DEFAULT_ALBEDO,
+  DEFAULT_PV_SYSTEM,
+  FOOTPRINT_SIZE,
+  type HorizonProfile,
+  IRRADIANCE_COMPONENTS,
+  type IrradianceComponent,
+  isFlatHorizon,
+  isValidDay,
+  MAX_FOOTPRINT_SIZE,
+  MIN_FOOTPRINT_SIZE,
+  normalizeBearing,
+  PV_SYSTEM_FIELDS,
+  type PvSystem,
+  parseAtmosphere,
+  parseHorizon,
+  parsePvSystem,
+  parseSurface,
+  type Surface,
+  serializeHorizon,
+} from '../solar';
+
+// Everything a link brings back: the configuration, then how it is being looked at
+export interface UrlState {
+  lat: number;
+  lon: number;
+  azm: number;
+  date: string; // YYYY-MM-DD in the location's time zone
+  surfaces: Surface[];
+  horizon: HorizonProfile;
+  albedo: number;
+  atmosphere: Atmosphere;
+  footprintSize: number;
+  pvSystem: PvSystem;
+  weather: boolean;
+  components: IrradianceComponent[];
+  compareMode: boolean;
+  comparisons: ComparisonConfig[];
+  phaseRays: boolean;
+  moon: boolean;
+  time: string | null; // selected time as HH:MM on the location's clock
+}
+
+/*
+ * Query parameters, anything at its default value is left out to keep links short
+ *   v     schema version, missing on links from before it was introduced
+ *   lat   latitude, lon longitude, azm building orientation in degrees
+ *   date  selected day, hor horizon profile, alb ground albedo, fp footprint size in meters
+ *   srf   surfaces, cmp configurations compared, both as base64url encoded JSON tuples
+ *   pv    balcony solar kit, as comma separated numbers in PV_SYSTEM_FIELDS order, wx cloudiness taken into account
+ *   atm   atmosphere as elevation, pressure, temperature and the twelve monthly turbidities, comma separated,
+ *         pressure and temperature left empty when estimated
+ *   ic    irradiance components shown, cm compare mode, ph twilight rays on the map, mn moon layer, t selected time
+ * Short links pack all of the above in a single z parameter, see buildShortShareUrl
+ */
+export const URL_STATE_VERSION = 2;
+const LEGACY_VERSION = 1;
+const COORDINATE_DIGITS = 5; // about a meter
+
+const SHORT_LINK_PARAM = 'z';
+// Parameters holding base64url encoded JSON, packed as plain JSON in short links where it compresses far better
+const JSON_PARAMS = ['srf', 'cmp'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Each step upgrades the parameters of a version to the next one
+const MIGRATIONS: Record<number, (params: URLSearchParams) => void> = {
+  // Version 1 stored the orientation as a signed rotation, e.g. -30 instead of 330
+  1: (params) => {
+    const azm = parseFloat(params.get('azm') ?? '');
+    if (Number.isFinite(azm)) params.set('azm', String(normalizeBearing(azm)));
+  },
+};
+
+const bytesToBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const base64UrlToBytes = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+const toBase64Url = (text: string): string => bytesToBase64Url(new TextEncoder().encode(text));
+
+const fromBase64Url = (value: string): unknown => {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(value)));
+  } catch {
+    return null;
+  }
+};
+
+const parseNumber = (value: string | null, min: number, max: number): number | undefined => {
+  if (value === null) return undefined;
+  const parsed = parseFloat(value);
+  return parsed >= min && parsed <= max ? parsed : undefined;
+};
+
+// Surfaces travel as [name, preset, color, azimuth, tilt, balcony?] without their ids
+const encodeSurface = ({ name, preset, color, azimuth, tilt, balcony }: Surface) => [
+  name,
+  preset ?? '',
+  color.slice(1),
+  azimuth,
+  tilt,
+  ...(balcony ? [BALCONY_FIELDS.map((field) => balcony[field])] : []),
+];
+
+const decodeSurface = (value: unknown): Surface | null => {
+  if (!Array.isArray(value)) return null;
+  const [name, preset, color, azimuth, tilt, balcony] = value;
+  return parseSurface({
+    id: createSurfaceId(),
+    name,
+    preset: preset === '' ? undefined : preset,
+    color: `#${color}`,
+    azimuth,
+    tilt,
+    balcony: Array.isArray(balcony)
+      ? Object.fromEntries(BALCONY_FIELDS.map((field, index) => [field, balcony[index]]))
+      : undefined,
+  });
+};
+
+const decodePvSystem = (value: string | null): PvSystem | undefined => {
+  const numbers = value?.split(',').map((item) => parseFloat(item)) ?? [];
+  const system = parsePvSystem(Object.fromEntries(PV_SYSTEM_FIELDS.map((field, index) => [field, numbers[index]])));
+  return system ? { ...system, azimuth: normalizeBearing(system.azimuth) } : undefined;
+};
+
+const encodeAtmosphere = ({ elevation, pressure, temperature, turbidity }: Atmosphere): string =>
+  [elevation, pressure ?? '', temperature ?? '', ...turbidity].join(',');
+
+const decodeAtmosphere = (value: string | null): Atmosphere | undefined => {
+  const [elevation, pressure, temperature, ...turbidity] = (value?.split(',') ?? []).map((item) =>
+    item === '' ? null : parseFloat(item),
+  );
+  return parseAtmosphere({ elevation, pressure, temperature, turbidity }) ?? undefined;
+};
+
+// Every item has to decode, otherwise the whole list is dropped
+const decodeItems = <T>(list: unknown[], decode: (item: unknown) => T | null): T[] | null => {
+  const items = list.map(decode);
+  return items.every((item) => item !== null) ? (items as T[]) : null;
+};
+
+const decodeList = <T>(value: string | null, decode: (item: unknown) => T | null): T[] | undefined => {
+  const list = value === null ? null : fromBase64Url(value);
+  return Array.isArray(list) ? (decodeItems(list, decode) ?? undefined) : undefined;
+};
+
+// Configurations compared travel as [label, lat, lon, azm, date], followed by
+// [surfaces, horizon, albedo, atmosphere] when taken from a saved place, null standing for any left out
+const encodeComparison = ({ label, lat, lon, azm, date, surfaces, horizon, albedo, atmosphere }: ComparisonConfig) => [
+  label,
+  lat,
+  lon,
+  azm,
+  date,
+  ...(surfaces || horizon || albedo !== undefined || atmosphere
+    ? [
+        surfaces?.map(encodeSurface) ?? null,
+        horizon ? serializeHorizon(horizon) : null,
+        albedo ?? null,
+        atmosphere ? encodeAtmosphere(atmosphere) : null,
+      ]
+    : []),
+];
+
+// Missing values decode to undefined, malformed ones to null
+const decodeOptional = <T>(value: unknown, decode: (value: unknown) => T | null | undefined): T | null | undefined =>
+  value === null || value === undefined ? undefined : (decode(value) ?? null);
+
+const decodeComparison = (value: unknown): ComparisonConfig | null => {
+  if (!Array.isArray(value)) return null;
+  const [label, lat, lon, azm, date, ...site] = value;
+  if (typeof label !== 'string' || typeof lat !== 'number' || typeof lon !== 'number') return null;
+  if (!(lat >= -90 && lat <= 90) || !(lon >= -180 && lon <= 180)) return null;
+  if (typeof azm !== 'number' || !Number.isFinite(azm) || !isValidDay(date)) return null;
+  const surfaces = decodeOptional(site[0], (list) => (Array.isArray(list) ? decodeItems(list, decodeSurface) : null));
+  const horizon = decodeOptional(site[1], (text) => (typeof text === 'string' ? parseHorizon(text) : null));
+  const albedo = decodeOptional(site[2], (number) =>
+    typeof number === 'number' && number >= 0 && number <= 1 ? number : null,
+  );
+  const atmosphere = decodeOptional(site[3], (text) => (typeof text === 'string' ? decodeAtmosphere(text) : null));
+  if (surfaces === null || horizon === null || albedo === null || atmosphere === null) return null;
+  return {
+    id: crypto.randomUUID(),
+    label,
+    lat,
+    lon,
+    azm: normalizeBearing(azm),
+    date,
+    ...(surfaces && { surfaces }),
+    ...(horizon && { horizon }),
+    ...(albedo !== undefined && { albedo }),
+    ...(atmosphere && { atmosphere }),
+  };
+};
+
+/**
+ * Read the state stored in a query string, upgrading links made by older versions
+ * Every parameter is validated on its own, so a malformed one falls back to its default
+ * without discarding the others. Links from newer versions are read on a best effort basis.
+ * @param search Query string, e.g. window.location.search
+ * @returns The valid part of the state
+ */
+export const readUrlState = (search: string): Partial<UrlState> => {
+  const params = new URLSearchParams(search);
+  const version = parseInt(params.get('v') ?? String(LEGACY_VERSION), 10);
+  for (let step = Number.isNaN(version) ? LEGACY_VERSION : version; step < URL_STATE_VERSION; step++) {
+    MIGRATIONS[step]?.(params);
+  }
+
+  const state: Partial<UrlState> = {
+    lat: parseNumber(params.get('lat'), -90, 90),
+    lon: parseNumber(params.get('lon'), -180, 180),
+    azm: parseNumber(params.get('azm'), 0, 360),
+    date: isValidDay(params.get('date')) ? (params.get('date') as string) : undefined,
+    surfaces: decodeList(params.get('srf'), decodeSurface),
+    horizon: parseHorizon(params.get('hor') ?? '') ?? undefined,
+    albedo: parseNumber(params.get('alb'), 0, 1),
+    atmosphere: decodeAtmosphere(params.get('atm')),
+    footprintSize: parseNumber(params.get('fp'), MIN_FOOTPRINT_SIZE, MAX_FOOTPRINT_SIZE),
+    pvSystem: decodePvSystem(params.get('pv')),
+    comparisons: decodeList(params.get('cmp'), decodeComparison),
+    time: TIME_PATTERN.test(params.get('t') ?? '') ? params.get('t') : undefined,
+  };
+  if (state.azm !== undefined) state.azm = normalizeBearing(state.azm);
+  if (params.has('wx')) state.weather = params.get('wx') === '1';
+  if (params.has('cm')) state.compareMode = params.get('cm') === '1';
+  if (params.has('ph')) state.phaseRays = params.get('ph') === '1';
+  if (params.has('mn')) state.moon = params.get('mn') === '1';
+  if (params.has('ic')) {
+    const components = params.get('ic')?.split(',') ?? [];
+    state.components = IRRADIANCE_COMPONENTS.filter((component) => components.includes(component));
+  }
+
+  return Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined)) as Partial<UrlState>;
+};
+
+/**
+ * Write the state into query parameters
+ * @param state State to store
+ * @param includeView Whether to keep the view (components shown, comparisons, selected time) or only the configuration
+ * @returns Query parameters, leaving out the values at their default
+ */
+export const writeUrlState = (state: UrlState, includeView = true): URLSearchParams => {
+  const params = new URLSearchParams({
+    v: String(URL_STATE_VERSION),
+    lat: String(Number(state.lat.toFixed(COORDINATE_DIGITS))),
+    lon: String(Number(state.lon.toFixed(COORDINATE_DIGITS))),
+    azm: String(state.azm),
+    date: state.date,
+  });
+  const surfaces = JSON.stringify(state.surfaces.map(encodeSurface));
+  if (surfaces !== JSON.stringify(createDefaultSurfaces().map(encodeSurface))) params.set('srf', toBase64Url(surfaces));
+  if (!isFlatHorizon(state.horizon)) params.set('hor', serializeHorizon(state.horizon));
+  if (state.albedo !== DEFAULT_ALBEDO) params.set('alb', String(state.albedo));
+  const atmosphere = encodeAtmosphere(state.atmosphere);
+  if (atmosphere !== encodeAtmosphere(createDefaultAtmosphere(state.lat))) params.set('atm', atmosphere);
+  if (state.footprintSize !== FOOTPRINT_SIZE) params.set('fp', String(state.footprintSize));
+  if (PV_SYSTEM_FIELDS.some((field) => state.pvSystem[field] !== DEFAULT_PV_SYSTEM[field])) {
+    params.set('pv', PV_SYSTEM_FIELDS.map((field) => state.pvSystem[field]).join(','));
+  }
+
+  if (state.weather) params.set('wx', '1');
+
+  if (includeView) {
+    if (state.components.length !== IRRADIANCE_COMPONENTS.length) params.set('ic', state.components.join(','));
+    if (state.compareMode) params.set('cm', '1');
+    if (state.phaseRays) params.set('ph', '1');
+    if (state.moon) params.set('mn', '1');
+    if (state.comparisons.length > 0) {
+      params.set('cmp', toBase64Url(JSON.stringify(state.comparisons.map(encodeComparison))));
+    }
+    if (state.time) params.set('t', state.time);
+  }
+
+  return params;
+};
+
+/**
+ * Build a link to the app opening on the given state
+ * @param state State to share
+ * @param includeView Whether to keep the view or only the configuration
+ * @param location Page the link points to
+ * @returns Absolute URL
+ */
+export const buildShareUrl = (state: UrlState, includeView = true, location: Location = window.location): string =>
+  `${location.origin}${location.pathname}?${writeUrlState(state, includeView)}`;
+
+// Streams bytes through a (de)compressor, deflate without headers keeps the payload smallest
+const transformBytes = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Build a short link to the app opening on the given state
+ * The parameters are gathered in a JSON object, compressed and stored base64url encoded in a single parameter,
+ * which typically makes the link about three times shorter and keeps its QR code printable.
+ * @param state State to share
+ * @param includeView Whether to keep the view or only the configuration
+ * @param location Page the link points to
+ * @returns Absolute URL
+ */
+export const buildShortShareUrl = async (
+  state: UrlState,
+  includeView = true,
+  location: Location = window.location,
+): Promise<string> => {
+  const packed = Object.fromEntries(
+    [...writeUrlState(state, includeView)].map(([key, value]) => [
+      key,
+      JSON_PARAMS.includes(key) ? fromBase64Url(value) : value,
+    ]),
+  );
+  const compressed = await transformBytes(
+    new TextEncoder().encode(JSON.stringify(packed)),
+    new CompressionStream('deflate-raw'),
+  );
+  return `${location.origin}${location.pathname}?${SHORT_LINK_PARAM}=${bytesToBase64Url(compressed)}`;
+};
+
+/**
+ * Unpack a short link into the regular query parameters read by readUrlState
+ * @param search Query string, e.g. window.location.search
+ * @returns Query string without the leading ?, or null when it is not a short link or cannot be unpacked
+ */
+export const expandShortLink = async (search: string): Promise<string | null> => {
+  const value = new URLSearchParams(search).get(SHORT_LINK_PARAM);
+  if (value === null) return null;
+  try {
+    const packed: unknown = JSON.parse(
+      new TextDecoder().decode(await transformBytes(base64UrlToBytes(value), new DecompressionStream('deflate-raw'))),
+    );
+    if (typeof packed !== 'object' || packed === null) return null;
+    const params = new URLSearchParams();
+    for (const [key, item] of Object.entries(packed)) {
+      params.set(key, JSON_PARAMS.includes(key) ? toBase64Url(JSON.stringify(item)) : String(item));
+    }
+    return params.toString();
+  } catch {
+    return null;
+  }
+};
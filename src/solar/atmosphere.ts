@@ -0,0 +1,221 @@
+import { getZonedMonth } from './timezone';
+
+// Atmosphere above the site, feeding the clear-sky model
+export interface Atmosphere {
+  elevation: number; // site elevation above sea level in m
+  turbidity: number[]; // Linke turbidity of each month, January first
+  pressure: number | null; // measured ambient pressure in hPa, estimated from the elevation when null
+  temperature: number | null; // ambient temperature in °C, STANDARD_TEMPERATURE when null
+}
+
+// Irradiance under a cloudless sky, as fractions (0-1) of the solar constant
+export interface ClearSkyIrradiance {
+  beamNormal: number; // direct beam on a plane facing the sun
+  diffuseHorizontal: number; // sky diffuse on a horizontal plane
+  globalHorizontal: number; // beam and diffuse on a horizontal plane
+}
+
+export type TurbidityPreset = 'mountain' | 'rural' | 'urban' | 'industrial';
+
+// Typical monthly Linke turbidity in the northern hemisphere, hazier in summer when the air holds more water
+export const TURBIDITY_PRESETS: Record<TurbidityPreset, number[]> = {
+  mountain: [1.8, 1.9, 2.1, 2.3, 2.5, 2.6, 2.7, 2.6, 2.3, 2.1, 1.9, 1.8],
+  rural: [2.8, 3.0, 3.3, 3.6, 3.8, 4.0, 4.1, 4.0, 3.6, 3.2, 2.9, 2.8],
+  urban: [3.5, 3.7, 4.1, 4.5, 4.7, 4.9, 5.0, 4.9, 4.5, 4.0, 3.6, 3.5],
+  industrial: [4.3, 4.5, 5.0, 5.5, 5.8, 6.0, 6.1, 6.0, 5.5, 4.9, 4.4, 4.3],
+};
+
+export const TURBIDITY_PRESET_NAMES = Object.keys(TURBIDITY_PRESETS) as TurbidityPreset[];
+
+export const STANDARD_PRESSURE = 1013.25; // in hPa, at sea level
+export const STANDARD_TEMPERATURE = 10; // in °C, the usual reference for refraction tables
+
+// Accepted ranges, wide enough for any inhabited place
+export const ELEVATION_LIMITS: [number, number] = [-500, 9000];
+export const TURBIDITY_LIMITS: [number, number] = [1, 10];
+export const PRESSURE_LIMITS: [number, number] = [300, 1100];
+export const TEMPERATURE_LIMITS: [number, number] = [-60, 60];
+
+/**
+ * Monthly Linke turbidity of a preset, shifted by half a year south of the equator
+ * @param preset Kind of surroundings
+ * @param lat Latitude in degrees
+ * @returns Turbidity of each month, January first
+ */
+export const getTurbidityPreset = (preset: TurbidityPreset, lat: number): number[] =>
+  TURBIDITY_PRESETS[preset].map((_, month, values) => values[lat >= 0 ? month : (month + 6) % 12]);
+
+/**
+ * Find the preset a set of monthly turbidities was taken from
+ * @param turbidity Turbidity of each month
+ * @param lat Latitude in degrees
+ * @returns The preset, or null when the values were edited
+ */
+export const findTurbidityPreset = (turbidity: number[], lat: number): TurbidityPreset | null =>
+  TURBIDITY_PRESET_NAMES.find((preset) =>
+    getTurbidityPreset(preset, lat).every((value, month) => value === turbidity[month]),
+  ) ?? null;
+
+/**
+ * Default atmosphere of a place: sea level, rural air, standard weather
+ * @param lat Latitude in degrees, for the season of the turbidity
+ * @returns Atmosphere settings
+ */
+export const createDefaultAtmosphere = (lat: number): Atmosphere => ({
+  elevation: 0,
+  turbidity: getTurbidityPreset('rural', lat),
+  pressure: null,
+  temperature: null,
+});
+
+/**
+ * Carry atmosphere settings over to another latitude
+ * Turbidity presets follow the seasons, so they are shifted when the equator is crossed; edited values are kept.
+ * @param atmosphere Atmosphere settings
+ * @param fromLat Latitude the settings were made for, in degrees
+ * @param toLat New latitude in degrees
+ * @returns Settings for the new latitude, the same object when nothing changes
+ */
+export const relocateAtmosphere = (atmosphere: Atmosphere, fromLat: number, toLat: number): Atmosphere => {
+  if (fromLat >= 0 === toLat >= 0) return atmosphere;
+  const preset = findTurbidityPreset(atmosphere.turbidity, fromLat);
+  return preset ? { ...atmosphere, turbidity: getTurbidityPreset(preset, toLat) } : atmosphere;
+};
+
+// Used where no atmosphere is given, in the northern hemisphere
+export const DEFAULT_ATMOSPHERE = createDefaultAtmosphere(45);
+
+const isInRange = (value: unknown, [min, max]: [number, number]): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+/**
+ * Validate atmosphere settings read from a link or a file
+ * @param value Untrusted value
+ * @returns The atmosphere, or null if any field is missing or out of range
+ */
+export const parseAtmosphere = (value: unknown): Atmosphere | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { elevation, turbidity, pressure, temperature } = value as Record<string, unknown>;
+  if (!isInRange(elevation, ELEVATION_LIMITS)) return null;
+  if (!Array.isArray(turbidity) || turbidity.length !== 12) return null;
+  if (!turbidity.every((month) => isInRange(month, TURBIDITY_LIMITS))) return null;
+  // Pressure and temperature are optional, null falls back to the estimate
+  if (pressure !== null && !isInRange(pressure, PRESSURE_LIMITS)) return null;
+  if (temperature !== null && !isInRange(temperature, TEMPERATURE_LIMITS)) return null;
+  return { elevation, turbidity, pressure: pressure as number | null, temperature: temperature as number | null };
+};
+
+/**
+ * Estimate the ambient pressure from the elevation with the standard barometric formula
+ * @param elevation Elevation above sea level in m
+ * @returns Pressure in hPa
+ */
+export const getPressureAtElevation = (elevation: number): number =>
+  STANDARD_PRESSURE * (1 - 2.25577e-5 * elevation) ** 5.25588;
+
+/**
+ * Ambient pressure at the site, measured or estimated
+ * @param atmosphere Atmosphere settings
+ * @returns Pressure in hPa
+ */
+export const getSitePressure = (atmosphere: Atmosphere): number =>
+  atmosphere.pressure ?? getPressureAtElevation(atmosphere.elevation);
+
+/**
+ * Calculate how much refraction lifts the sun, with Sæmundsson's formula
+ * Denser air bends light more, so the correction grows with pressure and shrinks with temperature.
+ * @param altitudeRadians True sun altitude in radians
+ * @param pressure Ambient pressure in hPa
+ * @param temperature Ambient temperature in °C
+ * @returns Refraction in radians, to add to the true altitude
+ */
+export const calculateRefraction = (altitudeRadians: number, pressure: number, temperature: number): number => {
+  // Past a few degrees below the horizon the formula diverges, and the sun is set anyway
+  const altitude = Math.max(-1, (altitudeRadians * 180) / Math.PI);
+  const arcMinutes = 1.02 / Math.tan(((altitude + 10.3 / (altitude + 5.11)) * Math.PI) / 180);
+
+  return ((arcMinutes / 60) * (pressure / 1010) * (283 / (273 + temperature)) * Math.PI) / 180;
+};
+
+/**
+ * Calculate air mass factor based on sun altitude using Kasten-Young formula
+ * Air mass is the path length of solar radiation through the atmosphere
+ * @param altitudeRadians Apparent sun altitude in radians
+ * @returns Air mass factor (1 at zenith, increases as sun approaches horizon)
+ */
+export const calculateAirMass = (altitudeRadians: number): number => {
+  // Handle edge case when sun is at or below horizon
+  if (altitudeRadians <= 0) return Infinity; // No direct sunlight
+
+  // Use Kasten-Young formula for all angles (more accurate than simple 1/cos)
+  // AM = 1 / (sin(altitude) + 0.50572 * (altitude + 6.07995°)^(-1.6364))
+  const airMass = 1 / (Math.sin(altitudeRadians) + 0.50572 * ((altitudeRadians * 180) / Math.PI + 6.07995) ** -1.6364);
+
+  return airMass;
+};
+
+/**
+ * Calculate the air mass at the site, corrected for refraction and for the thinner air at altitude
+ * @param altitudeRadians True sun altitude in radians
+ * @param atmosphere Atmosphere settings
+ * @returns Pressure-corrected air mass, Infinity while the sun is set
+ */
+export const calculateSiteAirMass = (altitudeRadians: number, atmosphere: Atmosphere): number => {
+  if (altitudeRadians <= 0) return Infinity;
+
+  const pressure = getSitePressure(atmosphere);
+  const temperature = atmosphere.temperature ?? STANDARD_TEMPERATURE;
+  const apparentAltitude = altitudeRadians + calculateRefraction(altitudeRadians, pressure, temperature);
+
+  return calculateAirMass(apparentAltitude) * (pressure / STANDARD_PRESSURE);
+};
+
+/**
+ * Linke turbidity in effect at a given time
+ * @param atmosphere Atmosphere settings
+ * @param time Time of the sample
+ * @param timeZone IANA time zone of the location, whose calendar month picks the value so a local day uses only one
+ * @returns Linke turbidity
+ */
+export const getLinkeTurbidity = (atmosphere: Atmosphere, time: Date, timeZone: string): number =>
+  atmosphere.turbidity[getZonedMonth(time, timeZone) - 1];
+
+/**
+ * Calculate clear-sky irradiance with the Ineichen-Perez model (2002)
+ * The Linke turbidity sums up the haze and water vapour, while elevation thins out the air above the site.
+ * @param altitudeRadians True sun altitude in radians
+ * @param atmosphere Atmosphere settings
+ * @param turbidity Linke turbidity of the month, from getLinkeTurbidity
+ * @returns Beam normal, diffuse horizontal and global horizontal irradiance
+ */
+export const calculateClearSky = (
+  altitudeRadians: number,
+  atmosphere: Atmosphere,
+  turbidity: number,
+): ClearSkyIrradiance => {
+  if (altitudeRadians <= 0) return { beamNormal: 0, diffuseHorizontal: 0, globalHorizontal: 0 };
+
+  const { elevation } = atmosphere;
+  const airMass = calculateSiteAirMass(altitudeRadians, atmosphere);
+  const sinAltitude = Math.sin(altitudeRadians);
+
+  const fh1 = Math.exp(-elevation / 8000);
+  const fh2 = Math.exp(-elevation / 1250);
+  const cg1 = 5.09e-5 * elevation + 0.868;
+  const cg2 = 3.92e-5 * elevation + 0.0387;
+
+  const globalHorizontal = cg1 * sinAltitude * Math.exp(-cg2 * airMass * (fh1 + fh2 * (turbidity - 1)));
+
+  // The beam is bounded by the share of the global irradiance it can account for
+  const b = 0.664 + 0.163 / fh1;
+  const beamFromTurbidity = b * Math.exp(-0.09 * airMass * (turbidity - 1));
+  const beamFromGlobal =
+    ((1 - (0.1 - 0.2 * Math.exp(-turbidity)) / (0.1 + 0.882 / fh1)) / sinAltitude) * globalHorizontal;
+  const beamNormal = Math.max(0, Math.min(beamFromTurbidity, beamFromGlobal, 1));
+
+  return {
+    beamNormal,
+    diffuseHorizontal: Math.max(0, globalHorizontal - beamNormal * sinAltitude),
+    globalHorizontal,
+  };
+};
@@ -0,0 +1,121 @@
+import type { SunPosition } from './intensity';
+
+// Box around a recessed or projecting balcony, all lengths in meters
+export interface Balcony {
+  depth: number; // distance from the back wall to the balcony edge
+  width: number; // along the facade
+  height: number; // floor to the slab of the balcony above
+  overhang: number; // how far the slab above projects from the back wall, 0 when open to the sky
+  leftFin: number; // depth of the side wall on the left, looking out
+  rightFin: number; // depth of the side wall on the right, looking out
+}
+
+export type BalconyPart = 'floor' | 'wall';
+
+export const createDefaultBalcony = (): Balcony => ({
+  depth: 1.5,
+  width: 3,
+  height: 2.7,
+  overhang: 1.5,
+  leftFin: 0,
+  rightFin: 0,
+});
+
+export const BALCONY_FIELDS: Array<keyof Balcony> = ['depth', 'width', 'height', 'overhang', 'leftFin', 'rightFin'];
+
+/**
+ * Validate a balcony read from storage or a file
+ * @param value Untrusted value
+ * @returns The balcony, or null if any dimension is missing or negative
+ */
+export const parseBalcony = (value: unknown): Balcony | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const balcony = createDefaultBalcony();
+  for (const field of BALCONY_FIELDS) {
+    const fieldValue = record[field];
+    if (typeof fieldValue !== 'number' || !(fieldValue >= 0)) return null;
+    balcony[field] = fieldValue;
+  }
+  return balcony;
+};
+
+// Grid resolution used to sample points on the balcony floor and back wall
+const GRID_SIZE = 12;
+
+/**
+ * Pick the balcony part a surface stands for
+ * Surfaces closer to horizontal are treated as the floor, the others as the back wall.
+ * @param surfaceAltitudeRadians Altitude of the surface normal in radians (0 = vertical, π/2 = horizontal)
+ * @returns The balcony part
+ */
+export const getBalconyPart = (surfaceAltitudeRadians: number): BalconyPart =>
+  surfaceAltitudeRadians > Math.PI / 4 ? 'floor' : 'wall';
+
+/**
+ * Calculate the fraction of a balcony part reached by the direct beam
+ * Points on a regular grid are traced towards the sun and tested against
+ * the slab above and the side fins.
+ * @param sunPosition Sun position in SunCalc format
+ * @param facingAzimuthRadians Azimuth of the facade normal, in the same convention as the sun azimuth
+ * @param balcony Balcony geometry
+ * @param part Balcony part to evaluate
+ * @returns Sunlit fraction (0-1)
+ */
+export const calculateSunlitFraction = (
+  sunPosition: SunPosition,
+  facingAzimuthRadians: number,
+  balcony: Balcony,
+  part: BalconyPart,
+): number => {
+  const { azimuth, altitude } = sunPosition;
+  if (altitude <= 0) return 0;
+
+  // Sun direction in the balcony frame: u to the right looking out, n outwards, z up
+  const horizontal = Math.cos(altitude);
+  const relativeAzimuth = azimuth - facingAzimuthRadians;
+  const sun = {
+    u: Math.sin(relativeAzimuth) * horizontal,
+    n: Math.cos(relativeAzimuth) * horizontal,
+    z: Math.sin(altitude),
+  };
+
+  // Sun behind the facade: the building itself shades the balcony
+  if (sun.n <= 0) return 0;
+
+  const halfWidth = balcony.width / 2;
+
+  const isBlocked = (u: number, n: number, z: number): boolean => {
+    // Slab of the balcony above
+    if (balcony.overhang > 0) {
+      const t = (balcony.height - z) / sun.z;
+      const hitU = u + t * sun.u;
+      const hitN = n + t * sun.n;
+      if (Math.abs(hitU) <= halfWidth && hitN >= 0 && hitN <= balcony.overhang) return true;
+    }
+
+    // Side fins
+    const fin = sun.u > 0 ? balcony.rightFin : balcony.leftFin;
+    if (fin > 0 && sun.u !== 0) {
+      const t = ((sun.u > 0 ? halfWidth : -halfWidth) - u) / sun.u;
+      const hitN = n + t * sun.n;
+      const hitZ = z + t * sun.z;
+      if (hitN >= 0 && hitN <= fin && hitZ >= 0 && hitZ <= balcony.height) return true;
+    }
+
+    return false;
+  };
+
+  let lit = 0;
+  for (let i = 0; i < GRID_SIZE; i++) {
+    for (let j = 0; j < GRID_SIZE; j++) {
+      const u = ((i + 0.5) / GRID_SIZE - 0.5) * balcony.width;
+      const along = (j + 0.5) / GRID_SIZE;
+      const blocked =
+        part === 'floor' ? isBlocked(u, along * balcony.depth, 0) : isBlocked(u, 0, along * balcony.height);
+      if (!blocked) lit++;
+    }
+  }
+
+  return lit / (GRID_SIZE * GRID_SIZE);
+};
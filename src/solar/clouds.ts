@@ -0,0 +1,46 @@
+import type { MonthlySummary } from './monthly';
+
+// Share of the sky covered by clouds at a given time (0-1), null when unknown
+export type CloudCover = (time: Date) => number | null;
+
+export interface CloudFactors {
+  global: number;
+  beam: number;
+  diffuse: number;
+}
+
+/**
+ * Scale clear-sky irradiance for cloud cover, after Kasten & Czeplak (1980)
+ * Global irradiance drops as 1 - 0.75 N^3.4 while the diffuse share grows as 0.3 + 0.7 N².
+ * @param cloudCover Cloud cover (0-1)
+ * @returns Factors applied to the clear-sky global, beam and diffuse irradiance
+ */
+export const getCloudFactors = (cloudCover: number): CloudFactors => {
+  const cover = Math.min(1, Math.max(0, cloudCover));
+  const global = 1 - 0.75 * cover ** 3.4;
+  const diffuseShare = 0.3 + 0.7 * cover ** 2;
+
+  return { global, beam: (global * (1 - diffuseShare)) / 0.7, diffuse: (global * diffuseShare) / 0.3 };
+};
+
+/**
+ * Share of the possible sunshine actually received, from the Angström-Prescott relation
+ * With the usual coefficients H/H0 = 0.25 + 0.5 S/S0, and clear skies letting through about 75% of H0.
+ * @param clearSkyIndex Ratio of the actual to the clear-sky irradiation
+ * @returns Sunshine fraction (0-1)
+ */
+export const getSunshineFraction = (clearSkyIndex: number): number =>
+  Math.min(1, Math.max(0, 1.5 * clearSkyIndex - 0.5));
+
+/**
+ * Turn a clear-sky monthly summary into a long-term average
+ * Peak irradiance is kept, as clear days still happen in cloudy months.
+ * @param summary Clear-sky summary
+ * @param clearSkyIndex Typical ratio of the actual to the clear-sky irradiation for the month
+ * @returns Summary with irradiation and sunshine scaled down
+ */
+export const applyClearSkyIndex = (summary: MonthlySummary, clearSkyIndex: number): MonthlySummary => ({
+  ...summary,
+  irradiation: summary.irradiation * clearSkyIndex,
+  directSunHours: summary.directSunHours * getSunshineFraction(clearSkyIndex),
+});
@@ -0,0 +1,76 @@
+import { type Atmosphere, createDefaultAtmosphere } from './atmosphere';
+import { DEFAULT_ALBEDO, type IrradianceComponent } from './diffuse';
+import { sumComponents } from './exposure';
+import { createFlatHorizon, type HorizonProfile } from './horizon';
+import type { IntensitySample } from './intensity';
+import type { Surface } from './surface';
+import { formatTime } from './timezone';
+
+// A place, orientation and day compared against the current settings
+export interface ComparisonConfig {
+  id: string;
+  label: string;
+  lat: number;
+  lon: number;
+  azm: number;
+  date: string; // YYYY-MM-DD in the location's time zone
+  // Taken from a saved place, left out for configurations entered by hand
+  surfaces?: Surface[]; // matched to the current surfaces by position
+  horizon?: HorizonProfile;
+  albedo?: number;
+  atmosphere?: Atmosphere;
+}
+
+/**
+ * Settings around a compared configuration, falling back to an open site when they are not known
+ * @param config Compared configuration
+ * @returns Horizon, albedo and atmosphere to compute its intensities with
+ */
+export const getComparisonSite = ({
+  lat,
+  horizon,
+  albedo,
+  atmosphere,
+}: ComparisonConfig): { horizon: HorizonProfile; albedo: number; atmosphere: Atmosphere } => ({
+  horizon: horizon ?? createFlatHorizon(),
+  albedo: albedo ?? DEFAULT_ALBEDO,
+  atmosphere: atmosphere ?? createDefaultAtmosphere(lat),
+});
+
+/**
+ * Pick the surface of a compared configuration standing for one of the current surfaces
+ * Without a surface of its own at that position, the current one is used without its balcony,
+ * which belongs to the current place.
+ * @param config Compared configuration
+ * @param surface Current surface
+ * @param index Position of the current surface
+ * @returns Surface to compute the compared intensities for
+ */
+export const getComparedSurface = (config: ComparisonConfig, surface: Surface, index: number): Surface =>
+  config.surfaces?.[index] ?? { ...surface, balcony: undefined };
+
+/**
+ * Difference between two intensity series, matching samples by the local clock time they were taken at
+ * Series for different places, dates or time zones can be compared this way, even across DST changes.
+ * @param reference Reference series
+ * @param other Series compared to the reference
+ * @param referenceTimeZone Time zone of the reference series
+ * @param otherTimeZone Time zone of the other series
+ * @param components Irradiance components summed into the intensity
+ * @returns For each reference sample, other minus reference intensity (-1 to 1), or null when the other series has no sample at that clock time
+ */
+export const calculateIntensityDifference = (
+  reference: IntensitySample[],
+  other: IntensitySample[],
+  referenceTimeZone: string,
+  otherTimeZone: string,
+  components: IrradianceComponent[],
+): (number | null)[] => {
+  const otherByClock = new Map(
+    other.map((sample) => [formatTime(sample.time, otherTimeZone), sumComponents(sample, components)]),
+  );
+  return reference.map((sample) => {
+    const value = otherByClock.get(formatTime(sample.time, referenceTimeZone));
+    return value === undefined ? null : value - sumComponents(sample, components);
+  });
+};
@@ -0,0 +1,38 @@
+export type IrradianceComponent = 'beam' | 'diffuse' | 'reflected';
+
+export const IRRADIANCE_COMPONENTS: IrradianceComponent[] = ['beam', 'diffuse', 'reflected'];
+
+// Typical albedo of urban surroundings (asphalt, concrete, mixed vegetation)
+export const DEFAULT_ALBEDO = 0.2;
+
+/**
+ * Calculate sky diffuse intensity on a tilted surface with the isotropic sky model
+ * The surface sees the fraction (1 + cos β) / 2 of the sky dome, β being its tilt from horizontal.
+ * @param diffuseHorizontal Diffuse intensity on a horizontal plane (0-1)
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @returns Diffuse intensity (0-1)
+ */
+export const calculateSkyDiffuse = (diffuseHorizontal: number, surfaceAltitudeRadians: number): number => {
+  // cos β equals the altitude of the surface normal's sine
+  const skyViewFactor = (1 + Math.sin(surfaceAltitudeRadians)) / 2;
+
+  return diffuseHorizontal * skyViewFactor;
+};
+
+/**
+ * Calculate ground-reflected intensity on a tilted surface, assuming an isotropic reflecting ground
+ * The surface sees the fraction (1 - cos β) / 2 of the ground, β being its tilt from horizontal.
+ * @param globalHorizontal Global intensity on a horizontal plane (0-1)
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param albedo Ground reflectance (0-1)
+ * @returns Reflected intensity (0-1)
+ */
+export const calculateGroundReflected = (
+  globalHorizontal: number,
+  surfaceAltitudeRadians: number,
+  albedo: number,
+): number => {
+  const groundViewFactor = (1 - Math.sin(surfaceAltitudeRadians)) / 2;
+
+  return globalHorizontal * albedo * groundViewFactor;
+};
@@ -0,0 +1,84 @@
+import { IRRADIANCE_COMPONENTS, type IrradianceComponent } from './diffuse';
+import type { IntensitySample } from './intensity';
+
+// Mean total solar irradiance at the top of the atmosphere, in W/m²
+export const SOLAR_CONSTANT = 1361;
+
+export interface DailyExposure {
+  irradiation: number; // in Wh/m²
+  directSunHours: number; // in hours
+}
+
+/**
+ * Weight of each sample in hours, using the trapezoidal rule
+ * Every sample accounts for half of the interval on each side of it,
+ * so the series does not need to be evenly spaced.
+ * @param samples Time-ordered samples
+ * @returns Duration in hours represented by each sample
+ */
+export const getSampleWeights = (samples: Array<{ time: Date }>): number[] =>
+  samples.map((_, index) => {
+    const previous = samples[Math.max(0, index - 1)].time.getTime();
+    const next = samples[Math.min(samples.length - 1, index + 1)].time.getTime();
+    return (next - previous) / 2 / 3_600_000;
+  });
+
+/**
+ * Sum the selected irradiance components of a sample
+ * @param sample Intensity sample
+ * @param components Components to include
+ * @returns Intensity (0-1)
+ */
+export const sumComponents = (sample: IntensitySample, components: IrradianceComponent[]): number =>
+  components.reduce((total, component) => total + sample[component], 0);
+
+/**
+ * Integrate an intensity series into the energy and sunshine received by a surface
+ * @param samples Time-ordered intensity samples covering the day
+ * @param threshold Minimum beam intensity (0-1) counted as direct sun
+ * @param components Irradiance components summed into the irradiation
+ * @returns Daily irradiation and hours of direct sun
+ */
+export const integrateDailyExposure = (
+  samples: IntensitySample[],
+  threshold = 0,
+  components: IrradianceComponent[] = IRRADIANCE_COMPONENTS,
+): DailyExposure => {
+  const weights = getSampleWeights(samples);
+
+  return samples.reduce<DailyExposure>(
+    (totals, sample, index) => ({
+      irradiation: totals.irradiation + sumComponents(sample, components) * SOLAR_CONSTANT * weights[index],
+      directSunHours: totals.directSunHours + (sample.beam > threshold ? weights[index] : 0),
+    }),
+    { irradiation: 0, directSunHours: 0 },
+  );
+};
+
+export interface SunWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Find the periods when a surface receives direct sun
+ * Each sample stands for the interval up to the next one, so a window ends at the first sample below the threshold.
+ * @param samples Time-ordered intensity samples covering the day
+ * @param threshold Minimum beam intensity (0-1) counted as direct sun
+ * @param end Instant closing the last sample's interval
+ * @returns Windows of direct sun in time order
+ */
+export const findSunWindows = (samples: IntensitySample[], threshold: number, end: Date): SunWindow[] => {
+  const windows: SunWindow[] = [];
+  let start: Date | null = null;
+  for (const sample of samples) {
+    if (sample.beam > threshold) {
+      if (!start) start = sample.time;
+    } else if (start) {
+      windows.push({ start, end: sample.time });
+      start = null;
+    }
+  }
+  if (start) windows.push({ start, end });
+  return windows;
+};
@@ -0,0 +1,73 @@
+import type { SunPosition } from './intensity';
+
+// Elevation angles of the skyline in degrees, evenly spaced by compass bearing starting from North
+export type HorizonProfile = number[];
+
+export const HORIZON_SECTORS = 36;
+export const MAX_HORIZON_ELEVATION = 90;
+
+export const createFlatHorizon = (sectors = HORIZON_SECTORS): HorizonProfile => Array(sectors).fill(0);
+
+export const isFlatHorizon = (profile: HorizonProfile): boolean => profile.every((elevation) => elevation <= 0);
+
+/**
+ * Convert a SunCalc azimuth into a compass bearing
+ * @param azimuthRadians Azimuth in radians (0 = South, π/2 = West)
+ * @returns Bearing in degrees (0 = North, 90 = East), normalized to [0, 360)
+ */
+export const toCompassBearing = (azimuthRadians: number): number =>
+  ((((azimuthRadians * 180) / Math.PI + 180) % 360) + 360) % 360;
+
+/**
+ * Elevation of the skyline in a given direction
+ * Points are linearly interpolated, wrapping around North.
+ * @param profile Horizon profile
+ * @param bearing Compass bearing in degrees
+ * @returns Skyline elevation in degrees
+ */
+export const getHorizonElevation = (profile: HorizonProfile, bearing: number): number => {
+  if (profile.length === 0) return 0;
+
+  const step = 360 / profile.length;
+  const position = ((((bearing % 360) + 360) % 360) / step) % profile.length;
+  const lowerIndex = Math.floor(position);
+  const upperIndex = (lowerIndex + 1) % profile.length;
+  const fraction = position - lowerIndex;
+
+  return profile[lowerIndex] + fraction * (profile[upperIndex] - profile[lowerIndex]);
+};
+
+/**
+ * Check whether the sun is up but hidden behind the skyline
+ * @param profile Horizon profile
+ * @param sunPosition Sun position in SunCalc format
+ * @returns True when the direct beam is blocked by an obstruction
+ */
+export const isSunObstructed = (profile: HorizonProfile, sunPosition: SunPosition): boolean => {
+  if (sunPosition.altitude <= 0) return false;
+
+  const altitudeDegrees = (sunPosition.altitude * 180) / Math.PI;
+  return altitudeDegrees < getHorizonElevation(profile, toCompassBearing(sunPosition.azimuth));
+};
+
+/**
+ * Serialize a horizon profile for storage in the query string
+ * @param profile Horizon profile
+ * @returns Comma separated elevations, rounded to whole degrees
+ */
+export const serializeHorizon = (profile: HorizonProfile): string =>
+  profile.map((elevation) => Math.round(elevation)).join(',');
+
+/**
+ * Parse a horizon profile from the query string
+ * @param value Comma separated elevations
+ * @returns The profile, or null when the value is malformed
+ */
+export const parseHorizon = (value: string): HorizonProfile | null => {
+  const profile = value.split(',').map((elevation) => parseFloat(elevation));
+  if (profile.length !== HORIZON_SECTORS) return null;
+  if (profile.some((elevation) => Number.isNaN(elevation) || elevation < 0 || elevation > MAX_HORIZON_ELEVATION)) {
+    return null;
+  }
+  return profile;
+};
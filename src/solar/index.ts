@@ -0,0 +1,132 @@
+export type { Atmosphere, ClearSkyIrradiance, TurbidityPreset } from './atmosphere';
+export {
+  calculateAirMass,
+  calculateClearSky,
+  calculateRefraction,
+  calculateSiteAirMass,
+  createDefaultAtmosphere,
+  DEFAULT_ATMOSPHERE,
+  ELEVATION_LIMITS,
+  findTurbidityPreset,
+  getLinkeTurbidity,
+  getPressureAtElevation,
+  getSitePressure,
+  getTurbidityPreset,
+  PRESSURE_LIMITS,
+  parseAtmosphere,
+  relocateAtmosphere,
+  STANDARD_PRESSURE,
+  STANDARD_TEMPERATURE,
+  TEMPERATURE_LIMITS,
+  TURBIDITY_LIMITS,
+  TURBIDITY_PRESET_NAMES,
+  TURBIDITY_PRESETS,
+} from './atmosphere';
+export type { Balcony, BalconyPart } from './balcony';
+export {
+  BALCONY_FIELDS,
+  calculateSunlitFraction,
+  createDefaultBalcony,
+  getBalconyPart,
+  parseBalcony,
+} from './balcony';
+export type { CloudCover, CloudFactors } from './clouds';
+export { applyClearSkyIndex, getCloudFactors, getSunshineFraction } from './clouds';
+export type { ComparisonConfig } from './compare';
+export { calculateIntensityDifference, getComparedSurface, getComparisonSite } from './compare';
+export type { IrradianceComponent } from './diffuse';
+export {
+  calculateGroundReflected,
+  calculateSkyDiffuse,
+  DEFAULT_ALBEDO,
+  IRRADIANCE_COMPONENTS,
+} from './diffuse';
+export type { DailyExposure, SunWindow } from './exposure';
+export { findSunWindows, getSampleWeights, integrateDailyExposure, SOLAR_CONSTANT, sumComponents } from './exposure';
+export type { HorizonProfile } from './horizon';
+export {
+  createFlatHorizon,
+  getHorizonElevation,
+  HORIZON_SECTORS,
+  isFlatHorizon,
+  isSunObstructed,
+  MAX_HORIZON_ELEVATION,
+  parseHorizon,
+  serializeHorizon,
+  toCompassBearing,
+} from './horizon';
+export type { IntensityOptions, IntensitySample, SunPosition, SunPositionData } from './intensity';
+export { calculateIntensity, calculateIntensitySeries } from './intensity';
+export type { LightLevel } from './light';
+export { classifyLight, classifyMonths, LIGHT_LEVEL_HOURS, LIGHT_LEVELS } from './light';
+export type { MonthlySummary } from './monthly';
+export { REPRESENTATIVE_DAYS, sampleRepresentativeDays, summarizeMonths } from './monthly';
+export type {
+  MoonEvent,
+  MoonEventTime,
+  MoonPhase,
+  MoonPhaseInfo,
+  MoonPositionData,
+  MoonRay,
+  MoonVisibilitySample,
+} from './moon';
+export {
+  calculateMoonVisibility,
+  getMoonEvents,
+  getMoonPhase,
+  getMoonRays,
+  getMoonVisibleHours,
+  MOON_PHASES,
+  sampleMoonDay,
+} from './moon';
+export type { PvEnergy, PvMonthlySummary, PvSample, PvSystem } from './pv';
+export {
+  calculatePvSeries,
+  DEFAULT_PV_SYSTEM,
+  getPeakPower,
+  integratePvEnergy,
+  PV_SYSTEM_FIELDS,
+  parsePvSystem,
+  summarizePvMonths,
+} from './pv';
+export type { SunRay } from './rays';
+export { getDaylightRays } from './rays';
+export { getDaysOfYear, getSeriesBounds, sampleDay } from './sampling';
+export type { CompassPoint, Surface, SurfaceOutline, SurfacePreset } from './surface';
+export {
+  COMPASS_POINTS,
+  createDefaultSurfaces,
+  createSurfaceId,
+  FOOTPRINT_SIZE,
+  getCompassPoint,
+  getEquatorBearing,
+  getSideAzimuth,
+  getSurfaceAltitude,
+  getSurfaceBearing,
+  getSurfaceOutline,
+  MAX_FOOTPRINT_SIZE,
+  MIN_FOOTPRINT_SIZE,
+  normalizeBearing,
+  parseSurface,
+  parseSurfaces,
+} from './surface';
+export type { DayParts, ZonedParts } from './timezone';
+export {
+  addDays,
+  formatDayParts,
+  formatOffset,
+  formatTime,
+  getBrowserTimeZone,
+  getDayBounds,
+  getTimeZoneOffset,
+  getToday,
+  getZonedParts,
+  isValidDay,
+  lookupTimeZone,
+  parseDay,
+  zonedTimeToDate,
+} from './timezone';
+export type { SkyPhase, SunEvent, SunEventTime, SunPhase, SunPhaseBand } from './twilight';
+export { getSkyPhase, getSunEvents, getSunPhase, getSunPhaseBands } from './twilight';
+export type { YearlySunPositions } from './yearly';
+export { calculateYearlyIntensity, sampleYear } from './yearly';
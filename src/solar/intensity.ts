@@ -0,0 +1,134 @@
+import { type Atmosphere, calculateClearSky, DEFAULT_ATMOSPHERE, getLinkeTurbidity } from './atmosphere';
+import { type Balcony, calculateSunlitFraction, getBalconyPart } from './balcony';
+import { type CloudCover, getCloudFactors } from './clouds';
+import { calculateGroundReflected, calculateSkyDiffuse, DEFAULT_ALBEDO } from './diffuse';
+import { type HorizonProfile, isSunObstructed } from './horizon';
+
+export interface SunPosition {
+  azimuth: number; // in radians, 0 = North, π/2 = East, π = South, 3π/2 = West (SunCalc format)
+  altitude: number; // in radians, 0 = horizon, π/2 = zenith
+}
+
+export interface SunPositionData {
+  time: Date;
+  position: SunPosition;
+}
+
+// All intensities are fractions (0-1) of the solar constant reaching the surface
+export interface IntensitySample {
+  time: Date;
+  intensity: number; // global: beam + diffuse + reflected
+  beam: number;
+  diffuse: number;
+  reflected: number;
+  obstructed: boolean; // sun is above the horizon but hidden behind the skyline
+}
+
+export interface IntensityOptions {
+  horizon?: HorizonProfile; // the direct beam is zeroed while the sun is behind the skyline
+  balcony?: Balcony; // the direct beam is scaled by the sunlit fraction of the balcony part
+  albedo?: number; // ground reflectance used for the reflected component
+  cloudCover?: CloudCover; // scales the clear-sky components where the cover is known
+  atmosphere?: Atmosphere; // elevation and haze of the clear-sky model
+  timeZone?: string; // of the location, picks the month of the turbidity, UTC when missing
+}
+
+/**
+ * Calculate sunlight intensity for a surface with given orientation
+ * @param sunPosition Sun position data
+ * @param sideAzimuthRadians Azimuth of the side in radians from North
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param beamNormal Clear-sky beam reaching a plane facing the sun (0-1), from calculateClearSky
+ * @returns Intensity value (0-1, where 1 is maximum intensity)
+ */
+export const calculateIntensity = (
+  sunPosition: SunPosition,
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  beamNormal: number,
+): number => {
+  const { azimuth: sunAzimuth, altitude: sunAltitude } = sunPosition;
+
+  // Convert sun position to 3D direction vector
+  // SunCalc returns azimuth and altitude in radians
+  const azimuthRad = sunAzimuth; // Already in radians, 0 = North, π/2 = East, π = South, 3π/2 = West
+  const altitudeRad = sunAltitude; // Already in radians, 0 = horizon, π/2 = zenith
+
+  // Convert to 3D direction vector (x, y, z)
+  // x = east, y = north, z = up
+  const sunDirection = {
+    x: Math.sin(azimuthRad) * Math.cos(altitudeRad),
+    y: Math.cos(azimuthRad) * Math.cos(altitudeRad),
+    z: Math.sin(altitudeRad),
+  };
+
+  // Calculate surface normal for this surface
+  // For vertical walls: surfaceAltitude = 0, normal points horizontally outward
+  // For horizontal roof: surfaceAltitude = π/2, normal points upward
+  // For angled surfaces: normal points at the specified altitude (matching SunCalc convention)
+  const surfaceNormal = {
+    x: Math.sin(sideAzimuthRadians) * Math.cos(surfaceAltitudeRadians),
+    y: Math.cos(sideAzimuthRadians) * Math.cos(surfaceAltitudeRadians),
+    z: Math.sin(surfaceAltitudeRadians),
+  };
+
+  // Calculate dot product (intensity = dot product of sun direction and surface normal)
+  const dotProduct =
+    sunDirection.x * surfaceNormal.x + sunDirection.y * surfaceNormal.y + sunDirection.z * surfaceNormal.z;
+
+  // Apply intensity calculation with proper handling of negative values
+  // When dot product is negative, the sun is behind the surface (no direct light)
+  // When dot product is positive, the sun is in front of the surface (direct light)
+  const geometricIntensity = Math.max(0, dotProduct);
+
+  // Final intensity combines geometric factor with the beam left after crossing the atmosphere
+  const finalIntensity = geometricIntensity * beamNormal;
+
+  return finalIntensity;
+};
+
+/**
+ * Evaluate the intensity model over a series of sun positions
+ * @param sunPositions Sampled sun positions for the day, all within one local day so they share a turbidity
+ * @param sideAzimuthRadians Azimuth of the side in radians from North
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param options Optional obstructions around the surface, ground albedo, cloud cover and atmosphere
+ * @returns One intensity sample per sun position, split into beam, sky diffuse and ground-reflected components
+ */
+export const calculateIntensitySeries = (
+  sunPositions: SunPositionData[],
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  {
+    horizon,
+    balcony,
+    albedo = DEFAULT_ALBEDO,
+    cloudCover,
+    atmosphere = DEFAULT_ATMOSPHERE,
+    timeZone = 'UTC',
+  }: IntensityOptions = {},
+): IntensitySample[] => {
+  const turbidity = sunPositions.length > 0 ? getLinkeTurbidity(atmosphere, sunPositions[0].time, timeZone) : 0;
+
+  return sunPositions.map(({ time, position }) => {
+    const obstructed = horizon ? isSunObstructed(horizon, position) : false;
+    const sunlitFraction =
+      balcony && !obstructed
+        ? calculateSunlitFraction(position, sideAzimuthRadians, balcony, getBalconyPart(surfaceAltitudeRadians))
+        : 1;
+
+    const clearSky = calculateClearSky(position.altitude, atmosphere, turbidity);
+    const clouds = getCloudFactors(cloudCover?.(time) ?? 0);
+
+    const beam = obstructed
+      ? 0
+      : calculateIntensity(position, sideAzimuthRadians, surfaceAltitudeRadians, clearSky.beamNormal) *
+        sunlitFraction *
+        clouds.beam;
+    const diffuse = calculateSkyDiffuse(clearSky.diffuseHorizontal, surfaceAltitudeRadians) * clouds.diffuse;
+    const reflected =
+      calculateGroundReflected(clearSky.globalHorizontal, surfaceAltitudeRadians, albedo) * clouds.global;
+
+    return { time, intensity: beam + diffuse + reflected, beam, diffuse, reflected, obstructed };
+  });
+};
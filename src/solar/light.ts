@@ -0,0 +1,30 @@
+import type { MonthlySummary } from './monthly';
+
+// Gardening light categories, sunniest first
+export type LightLevel = 'fullSun' | 'partialSun' | 'partialShade' | 'fullShade';
+
+export const LIGHT_LEVELS: LightLevel[] = ['fullSun', 'partialSun', 'partialShade', 'fullShade'];
+
+// Minimum hours of direct sun per day for each category, as used on plant labels
+export const LIGHT_LEVEL_HOURS: Record<LightLevel, number> = {
+  fullSun: 6,
+  partialSun: 4,
+  partialShade: 2,
+  fullShade: 0,
+};
+
+/**
+ * Classify a spot by the direct sun it gets
+ * @param directSunHours Hours of direct sun per day
+ * @returns Light category
+ */
+export const classifyLight = (directSunHours: number): LightLevel =>
+  LIGHT_LEVELS.find((level) => directSunHours >= LIGHT_LEVEL_HOURS[level]) ?? 'fullShade';
+
+/**
+ * Classify a surface month by month
+ * @param summaries Monthly summaries from summarizeMonths
+ * @returns One light category per month, January first
+ */
+export const classifyMonths = (summaries: MonthlySummary[]): LightLevel[] =>
+  summaries.map(({ directSunHours }) => classifyLight(directSunHours));
@@ -0,0 +1,54 @@
+import { integrateDailyExposure, SOLAR_CONSTANT } from './exposure';
+import { calculateIntensitySeries, type IntensityOptions, type SunPositionData } from './intensity';
+import { sampleDay } from './sampling';
+import { formatDayParts } from './timezone';
+
+// Klein's recommended average day of each month, whose extraterrestrial radiation is closest to the monthly mean
+export const REPRESENTATIVE_DAYS = [17, 16, 16, 15, 15, 11, 17, 16, 15, 15, 14, 10];
+
+export interface MonthlySummary {
+  month: number; // 0 = January
+  directSunHours: number; // in hours per day
+  peakIrradiance: number; // in W/m²
+  irradiation: number; // in Wh/m² per day
+}
+
+/**
+ * Sample the sun position on the representative day of every month
+ * @param year Full year
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone the days are interpreted in
+ * @returns Twelve days of samples, January first
+ */
+export const sampleRepresentativeDays = (
+  year: number,
+  lat: number,
+  lon: number,
+  timeZone: string,
+): SunPositionData[][] =>
+  REPRESENTATIVE_DAYS.map((day, month) =>
+    sampleDay(formatDayParts({ year, month: month + 1, day }), lat, lon, timeZone),
+  );
+
+/**
+ * Summarize the sun received by a surface on each month's representative day
+ * @param monthlySamples Samples from sampleRepresentativeDays
+ * @param sideAzimuthRadians Azimuth of the side in radians
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param options Optional obstructions around the surface and ground albedo
+ * @returns One summary per month
+ */
+export const summarizeMonths = (
+  monthlySamples: SunPositionData[][],
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  options: IntensityOptions = {},
+): MonthlySummary[] =>
+  monthlySamples.map((daySamples, month) => {
+    const series = calculateIntensitySeries(daySamples, sideAzimuthRadians, surfaceAltitudeRadians, options);
+    const { irradiation, directSunHours } = integrateDailyExposure(series);
+    const peak = series.reduce((max, sample) => Math.max(max, sample.intensity), 0);
+
+    return { month, directSunHours, peakIrradiance: peak * SOLAR_CONSTANT, irradiation };
+  });
@@ -0,0 +1,183 @@
+import SunCalc from 'suncalc';
+import { calculateSunlitFraction, getBalconyPart } from './balcony';
+import { getSampleWeights } from './exposure';
+import { isSunObstructed } from './horizon';
+import { calculateIntensity, type IntensityOptions, type SunPosition } from './intensity';
+import { getDayBounds } from './timezone';
+
+export type MoonEvent = 'moonrise' | 'moonset';
+
+export interface MoonEventTime {
+  event: MoonEvent;
+  time: Date;
+}
+
+// Named phases, every eighth of the lunar cycle starting from the new moon
+export type MoonPhase =
+  | 'newMoon'
+  | 'waxingCrescent'
+  | 'firstQuarter'
+  | 'waxingGibbous'
+  | 'fullMoon'
+  | 'waningGibbous'
+  | 'lastQuarter'
+  | 'waningCrescent';
+
+export const MOON_PHASES: MoonPhase[] = [
+  'newMoon',
+  'waxingCrescent',
+  'firstQuarter',
+  'waxingGibbous',
+  'fullMoon',
+  'waningGibbous',
+  'lastQuarter',
+  'waningCrescent',
+];
+
+export interface MoonPhaseInfo {
+  phase: MoonPhase;
+  cycle: number; // position in the lunar cycle (0-1), 0 = new moon, 0.5 = full moon
+  illumination: number; // illuminated share of the disc (0-1)
+}
+
+export interface MoonPositionData {
+  time: Date;
+  position: SunPosition; // same conventions as the sun
+  illumination: number;
+}
+
+export interface MoonVisibilitySample {
+  time: Date;
+  visible: boolean; // above the horizon, clear of the skyline and in front of the surface
+  illumination: number;
+}
+
+export interface MoonRay {
+  time: Date;
+  position: SunPosition;
+  event?: MoonEvent;
+}
+
+const HOUR = 60 * 60000; // ms
+
+/**
+ * Describe the moon phase at a given time
+ * @param time Instant
+ * @returns Phase name, position in the cycle and illuminated share
+ */
+export const getMoonPhase = (time: Date): MoonPhaseInfo => {
+  const { phase: cycle, fraction } = SunCalc.getMoonIllumination(time);
+  return { phase: MOON_PHASES[Math.round(cycle * 8) % 8], cycle, illumination: fraction };
+};
+
+/**
+ * List moonrise and moonset falling on a day
+ * SunCalc searches whole UTC days, so the UTC days overlapping the local one are searched and the results trimmed.
+ * @param day Day as YYYY-MM-DD in the location's time zone
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone of the location
+ * @returns Events in time order, empty when the moon stays up or down all day
+ */
+export const getMoonEvents = (day: string, lat: number, lon: number, timeZone: string): MoonEventTime[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+  const utcDays = [...new Set([start, new Date(end.getTime() - 1)].map((time) => time.toISOString().slice(0, 10)))];
+
+  return utcDays
+    .flatMap((utcDay) => {
+      const { rise, set } = SunCalc.getMoonTimes(new Date(`${utcDay}T00:00:00Z`), lat, lon, true);
+      return [
+        { event: 'moonrise' as const, time: rise },
+        { event: 'moonset' as const, time: set },
+      ];
+    })
+    .filter((entry): entry is MoonEventTime => entry.time instanceof Date && entry.time >= start && entry.time < end)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Sample the moon position over a whole day, on the same grid as sampleDay
+ * @param day Day as YYYY-MM-DD
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone the day is interpreted in
+ * @param intervalMinutes Time between samples
+ * @returns Samples from local midnight up to the next local midnight
+ */
+export const sampleMoonDay = (
+  day: string,
+  lat: number,
+  lon: number,
+  timeZone: string,
+  intervalMinutes = 15,
+): MoonPositionData[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+
+  const samples: MoonPositionData[] = [];
+  for (let time = start.getTime(); time < end.getTime(); time += intervalMinutes * 60000) {
+    const d = new Date(time);
+    const { azimuth, altitude } = SunCalc.getMoonPosition(d, lat, lon);
+    samples.push({ time: d, position: { azimuth, altitude }, illumination: SunCalc.getMoonIllumination(d).fraction });
+  }
+  return samples;
+};
+
+/**
+ * Work out when the moon can be seen from a surface
+ * The same geometry as the direct beam applies: the moon has to be in front of the surface,
+ * above the skyline and, on a balcony, not hidden by the slab or the side fins.
+ * @param samples Moon samples from sampleMoonDay
+ * @param sideAzimuthRadians Azimuth of the side in radians
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param options Optional obstructions around the surface
+ * @returns One sample per moon position
+ */
+export const calculateMoonVisibility = (
+  samples: MoonPositionData[],
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  { horizon, balcony }: Pick<IntensityOptions, 'horizon' | 'balcony'> = {},
+): MoonVisibilitySample[] =>
+  samples.map(({ time, position, illumination }) => {
+    const visible =
+      position.altitude > 0 &&
+      !(horizon && isSunObstructed(horizon, position)) &&
+      calculateIntensity(position, sideAzimuthRadians, surfaceAltitudeRadians, 1) > 0 &&
+      (!balcony ||
+        calculateSunlitFraction(position, sideAzimuthRadians, balcony, getBalconyPart(surfaceAltitudeRadians)) > 0);
+    return { time, visible, illumination };
+  });
+
+/**
+ * Add up the time the moon is visible
+ * @param samples Visibility samples covering the day
+ * @returns Hours of visible moon
+ */
+export const getMoonVisibleHours = (samples: MoonVisibilitySample[]): number => {
+  const weights = getSampleWeights(samples);
+  return samples.reduce((hours, sample, index) => hours + (sample.visible ? weights[index] : 0), 0);
+};
+
+/**
+ * Moon positions drawn as rays on the map: every hour while the moon is up, plus moonrise and moonset
+ * @param day Day as YYYY-MM-DD in the location's time zone
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone of the location
+ * @returns Rays in time order, moonrise and moonset last
+ */
+export const getMoonRays = (day: string, lat: number, lon: number, timeZone: string): MoonRay[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+
+  const rays: MoonRay[] = [];
+  for (let time = start.getTime(); time < end.getTime(); time += HOUR) {
+    const { azimuth, altitude } = SunCalc.getMoonPosition(new Date(time), lat, lon);
+    if (altitude > 0) rays.push({ time: new Date(time), position: { azimuth, altitude } });
+  }
+
+  for (const { event, time } of getMoonEvents(day, lat, lon, timeZone)) {
+    const { azimuth, altitude } = SunCalc.getMoonPosition(time, lat, lon);
+    rays.push({ time, position: { azimuth, altitude }, event });
+  }
+  return rays;
+};
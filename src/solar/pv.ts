@@ -0,0 +1,153 @@
+import { getSampleWeights, SOLAR_CONSTANT } from './exposure';
+import {
+  calculateIntensitySeries,
+  type IntensityOptions,
+  type IntensitySample,
+  type SunPositionData,
+} from './intensity';
+
+// A plug-in solar kit: panels wired to a micro-inverter feeding a household socket
+export interface PvSystem {
+  panelCount: number;
+  panelArea: number; // in m² per panel
+  efficiency: number; // module efficiency at standard test conditions (0-1)
+  tilt: number; // in degrees, 0 = horizontal, 90 = vertical (hanging from the railing)
+  azimuth: number; // compass bearing the panels face in degrees, relative to the building like surfaces
+  inverterLimit: number; // maximum AC output in W
+  temperatureDerating: number; // share of DC power lost to hot cells (0-1)
+}
+
+export const DEFAULT_PV_SYSTEM: PvSystem = {
+  panelCount: 2,
+  panelArea: 1.95,
+  efficiency: 0.21,
+  tilt: 90,
+  azimuth: 180,
+  inverterLimit: 800,
+  temperatureDerating: 0.1,
+};
+
+// Order of the fields when a system is stored as a list of numbers
+export const PV_SYSTEM_FIELDS: Array<keyof PvSystem> = [
+  'panelCount',
+  'panelArea',
+  'efficiency',
+  'tilt',
+  'azimuth',
+  'inverterLimit',
+  'temperatureDerating',
+];
+
+const PV_SYSTEM_LIMITS: Record<keyof PvSystem, [number, number]> = {
+  panelCount: [1, 100],
+  panelArea: [0.1, 10],
+  efficiency: [0.01, 1],
+  tilt: [0, 90],
+  azimuth: [0, 360],
+  inverterLimit: [1, 100_000],
+  temperatureDerating: [0, 1],
+};
+
+// All powers in W
+export interface PvSample {
+  time: Date;
+  dc: number; // produced by the panels
+  ac: number; // delivered by the inverter
+  clipped: number; // above the inverter limit, lost
+}
+
+// All energies in Wh
+export interface PvEnergy {
+  energy: number; // delivered by the inverter
+  clipped: number; // lost to the inverter limit
+}
+
+export interface PvMonthlySummary extends PvEnergy {
+  month: number; // 0 = January
+  days: number;
+}
+
+/**
+ * Validate a PV system read from a link or a file
+ * @param value Untrusted value
+ * @returns The system, or null if any field is missing or out of range
+ */
+export const parsePvSystem = (value: unknown): PvSystem | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const system = { ...DEFAULT_PV_SYSTEM };
+  for (const field of PV_SYSTEM_FIELDS) {
+    const [min, max] = PV_SYSTEM_LIMITS[field];
+    const fieldValue = record[field];
+    if (typeof fieldValue !== 'number' || !(fieldValue >= min && fieldValue <= max)) return null;
+    system[field] = fieldValue;
+  }
+  return system;
+};
+
+/**
+ * Nameplate power of the panels
+ * @param system PV system
+ * @returns Peak power in W, at 1000 W/m² and 25 °C
+ */
+export const getPeakPower = (system: PvSystem): number =>
+  system.panelCount * system.panelArea * system.efficiency * 1000;
+
+/**
+ * Convert the irradiance on the panels into the power delivered by the inverter
+ * @param samples Intensity samples for the panels' orientation
+ * @param system PV system
+ * @returns Power at each sample
+ */
+export const calculatePvSeries = (samples: IntensitySample[], system: PvSystem): PvSample[] => {
+  const dcPerIrradiance = system.panelCount * system.panelArea * system.efficiency * (1 - system.temperatureDerating);
+
+  return samples.map(({ time, intensity }) => {
+    const dc = intensity * SOLAR_CONSTANT * dcPerIrradiance;
+    const ac = Math.min(dc, system.inverterLimit);
+    return { time, dc, ac, clipped: dc - ac };
+  });
+};
+
+/**
+ * Integrate a power series into the energy delivered and lost
+ * @param series Time-ordered power samples covering the day
+ * @returns Daily energy
+ */
+export const integratePvEnergy = (series: PvSample[]): PvEnergy => {
+  const weights = getSampleWeights(series);
+
+  return series.reduce<PvEnergy>(
+    (totals, sample, index) => ({
+      energy: totals.energy + sample.ac * weights[index],
+      clipped: totals.clipped + sample.clipped * weights[index],
+    }),
+    { energy: 0, clipped: 0 },
+  );
+};
+
+/**
+ * Estimate the energy of every month from its representative day
+ * @param year Full year, for the length of February
+ * @param monthlySamples Samples from sampleRepresentativeDays
+ * @param sideAzimuthRadians Azimuth the panels face in radians
+ * @param surfaceAltitudeRadians Altitude of the panels in radians (0 = vertical, π/2 = horizontal)
+ * @param system PV system
+ * @param options Optional obstructions around the panels and ground albedo
+ * @returns One summary per month, with the energy of the whole month
+ */
+export const summarizePvMonths = (
+  year: number,
+  monthlySamples: SunPositionData[][],
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  system: PvSystem,
+  options: IntensityOptions = {},
+): PvMonthlySummary[] =>
+  monthlySamples.map((daySamples, month) => {
+    const series = calculateIntensitySeries(daySamples, sideAzimuthRadians, surfaceAltitudeRadians, options);
+    const { energy, clipped } = integratePvEnergy(calculatePvSeries(series, system));
+    const days = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return { month, days, energy: energy * days, clipped: clipped * days };
+  });
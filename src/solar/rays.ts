@@ -0,0 +1,54 @@
+import SunCalc from 'suncalc';
+import type { SunPosition } from './intensity';
+import { getDayBounds, parseDay, zonedTimeToDate } from './timezone';
+
+export interface SunRay {
+  time: Date;
+  position: SunPosition;
+  event?: 'sunrise' | 'sunset';
+}
+
+const HALF_HOUR = 30 * 60000; // ms
+
+/**
+ * Sun positions drawn as rays on the map: every half hour of the local clock while the sun is up,
+ * plus sunrise and sunset
+ * @param day Day as YYYY-MM-DD in the location's time zone
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone of the location
+ * @returns Rays in time order, sunrise and sunset last
+ */
+export const getDaylightRays = (day: string, lat: number, lon: number, timeZone: string): SunRay[] => {
+  // Get sunrise and sunset times for the selected date, around local noon so they fall on that day
+  const { start: dayStart, end: dayEnd } = getDayBounds(day, timeZone);
+  const { sunrise, sunset } = SunCalc.getTimes(
+    zonedTimeToDate({ ...parseDay(day), hour: 12, minute: 0 }, timeZone),
+    lat,
+    lon,
+  );
+
+  // Start from sunrise, end at sunset, on half hours of the local clock
+  const sinceMidnight = (time: Date) => time.getTime() - dayStart.getTime();
+  const startTime = Number.isNaN(sunrise.getTime())
+    ? dayStart.getTime()
+    : dayStart.getTime() + Math.floor(sinceMidnight(sunrise) / HALF_HOUR) * HALF_HOUR;
+  const endTime = Number.isNaN(sunset.getTime())
+    ? dayEnd.getTime()
+    : dayStart.getTime() + Math.ceil(sinceMidnight(sunset) / HALF_HOUR) * HALF_HOUR;
+
+  const rays: SunRay[] = [];
+  for (let time = startTime; time <= endTime; time += HALF_HOUR) {
+    const position = SunCalc.getPosition(new Date(time), lat, lon);
+    // Only keep rays when sun is above horizon
+    if (position.altitude > 0) rays.push({ time: new Date(time), position });
+  }
+
+  for (const [time, event] of [
+    [sunrise, 'sunrise'],
+    [sunset, 'sunset'],
+  ] as const) {
+    if (!Number.isNaN(time.getTime())) rays.push({ time, position: SunCalc.getPosition(time, lat, lon), event });
+  }
+  return rays;
+};
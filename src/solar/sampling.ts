@@ -0,0 +1,64 @@
+import SunCalc from 'suncalc';
+import type { SunPositionData } from './intensity';
+import { addDays, getDayBounds } from './timezone';
+
+/**
+ * Sample the sun position over a whole day
+ * Samples are evenly spaced in real time from local midnight, so DST transition
+ * days get fewer or more samples than usual.
+ * @param day Day as YYYY-MM-DD
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone the day is interpreted in
+ * @param intervalMinutes Time between samples
+ * @returns Samples from local midnight up to the next local midnight
+ */
+export const sampleDay = (
+  day: string,
+  lat: number,
+  lon: number,
+  timeZone: string,
+  intervalMinutes = 15,
+): SunPositionData[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+
+  const sunPositions: SunPositionData[] = [];
+  for (let time = start.getTime(); time < end.getTime(); time += intervalMinutes * 60000) {
+    const d = new Date(time);
+    const position = SunCalc.getPosition(d, lat, lon);
+    sunPositions.push({
+      time: d,
+      position: {
+        azimuth: position.azimuth,
+        altitude: position.altitude,
+      },
+    });
+  }
+
+  return sunPositions;
+};
+
+/**
+ * Time span covered by a series of evenly spaced samples
+ * @param samples Time-ordered samples, at least two
+ * @returns First sample time and the end of the last sample's interval
+ */
+export const getSeriesBounds = (samples: { time: Date }[]): { start: Date; end: Date } => {
+  const first = samples[0].time.getTime();
+  const last = samples[samples.length - 1].time.getTime();
+  const step = samples.length > 1 ? (last - first) / (samples.length - 1) : 0;
+  return { start: new Date(first), end: new Date(last + step) };
+};
+
+/**
+ * List the days of a calendar year
+ * @param year Full year
+ * @returns Every day in the year as YYYY-MM-DD
+ */
+export const getDaysOfYear = (year: number): string[] => {
+  const days: string[] = [];
+  for (let day = `${String(year).padStart(4, '0')}-01-01`; day.startsWith(String(year)); day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
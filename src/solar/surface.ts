@@ -0,0 +1,179 @@
+import { type Balcony, parseBalcony } from './balcony';
+
+export type SurfacePreset = 'east' | 'south' | 'west' | 'north' | 'roof';
+
+export interface Surface {
+  id: string;
+  name: string; // user-defined label, falls back to the preset label when empty
+  preset?: SurfacePreset;
+  color: string;
+  azimuth: number; // compass bearing of the surface normal in degrees (0 = N, 90 = E), relative to the building
+  tilt: number; // in degrees, 0 = horizontal (facing up), 90 = vertical
+  balcony?: Balcony; // set when the surface is the floor or back wall of a balcony
+}
+
+export const createSurfaceId = (): string => crypto.randomUUID();
+
+export const createDefaultSurfaces = (): Surface[] => [
+  { id: createSurfaceId(), name: '', preset: 'east', color: '#FFD300', azimuth: 90, tilt: 90 },
+  { id: createSurfaceId(), name: '', preset: 'south', color: '#FF0000', azimuth: 180, tilt: 90 },
+  { id: createSurfaceId(), name: '', preset: 'west', color: '#3914AF', azimuth: 270, tilt: 90 },
+  { id: createSurfaceId(), name: '', preset: 'north', color: '#00CC00', azimuth: 0, tilt: 90 },
+  { id: createSurfaceId(), name: '', preset: 'roof', color: '#FFFFFF', azimuth: 180, tilt: 0 },
+];
+
+const SURFACE_PRESETS: SurfacePreset[] = ['east', 'south', 'west', 'north', 'roof'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Validate a surface read from storage or a file
+ * @param value Untrusted value
+ * @returns The surface, or null if it is malformed
+ */
+export const parseSurface = (value: unknown): Surface | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, name, preset, color, azimuth, tilt, balcony } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || id === '' || typeof name !== 'string') return null;
+  if (preset !== undefined && !SURFACE_PRESETS.includes(preset as SurfacePreset)) return null;
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) return null;
+  if (typeof azimuth !== 'number' || !Number.isFinite(azimuth)) return null;
+  if (typeof tilt !== 'number' || !(tilt >= 0 && tilt <= 90)) return null;
+  const parsedBalcony = balcony === undefined ? undefined : parseBalcony(balcony);
+  if (parsedBalcony === null) return null;
+
+  return {
+    id,
+    name,
+    ...(preset === undefined ? {} : { preset: preset as SurfacePreset }),
+    color,
+    azimuth: normalizeBearing(azimuth),
+    tilt,
+    ...(parsedBalcony ? { balcony: parsedBalcony } : {}),
+  };
+};
+
+/**
+ * Validate a list of surfaces read from storage or a file
+ * @param value Untrusted value
+ * @returns The surfaces, or null if the list or any of its surfaces is malformed
+ */
+export const parseSurfaces = (value: unknown): Surface[] | null => {
+  if (!Array.isArray(value)) return null;
+  const surfaces = value.map(parseSurface);
+  return surfaces.every((surface) => surface !== null) ? (surfaces as Surface[]) : null;
+};
+
+export const COMPASS_POINTS = [
+  'N',
+  'NNE',
+  'NE',
+  'ENE',
+  'E',
+  'ESE',
+  'SE',
+  'SSE',
+  'S',
+  'SSW',
+  'SW',
+  'WSW',
+  'W',
+  'WNW',
+  'NW',
+  'NNW',
+] as const;
+
+export type CompassPoint = (typeof COMPASS_POINTS)[number];
+
+/**
+ * Wrap an angle in degrees into [0, 360)
+ * @param degrees Angle in degrees
+ * @returns Equivalent bearing
+ */
+export const normalizeBearing = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/**
+ * Nearest point of the 16-wind compass rose
+ * @param bearing Compass bearing in degrees
+ * @returns Compass point, e.g. SSW for 200°
+ */
+export const getCompassPoint = (bearing: number): CompassPoint =>
+  COMPASS_POINTS[Math.round(normalizeBearing(bearing) / 22.5) % COMPASS_POINTS.length];
+
+/**
+ * Compass bearing of the direction facing the equator, where the sun culminates outside the tropics
+ * @param lat Latitude in degrees
+ * @returns 180 (South) in the northern hemisphere, 0 (North) in the southern one
+ */
+export const getEquatorBearing = (lat: number): number => (lat >= 0 ? 180 : 0);
+
+/**
+ * Compass bearing of the surface normal once the building orientation is applied
+ * @param surface Surface definition
+ * @param azm Building orientation in degrees
+ * @returns Bearing in degrees, normalized to [0, 360)
+ */
+export const getSurfaceBearing = (surface: Pick<Surface, 'azimuth'>, azm: number): number =>
+  normalizeBearing(surface.azimuth + azm);
+
+/**
+ * Azimuth of the surface normal in the SunCalc convention used by the intensity model
+ * @param surface Surface definition
+ * @param azm Building orientation in degrees
+ * @returns Azimuth in radians (0 = South, π/2 = West)
+ */
+export const getSideAzimuth = (surface: Pick<Surface, 'azimuth'>, azm: number): number =>
+  ((getSurfaceBearing(surface, azm) - 180) * Math.PI) / 180;
+
+/**
+ * Altitude of the surface normal used by the intensity model
+ * @param surface Surface definition
+ * @returns Altitude in radians (0 = vertical surface, π/2 = horizontal surface)
+ */
+export const getSurfaceAltitude = (surface: Pick<Surface, 'tilt'>): number => ((90 - surface.tilt) * Math.PI) / 180;
+
+// Side of the square building footprint drawn around the location, in meters
+export const FOOTPRINT_SIZE = 10;
+// Range the map handles can resize the footprint to
+export const MIN_FOOTPRINT_SIZE = 2;
+export const MAX_FOOTPRINT_SIZE = 200;
+
+export interface SurfaceOutline {
+  flat: boolean; // horizontal surfaces cover the whole footprint, the others are one of its edges
+  points: [number, number][]; // east/north offsets from the location in meters
+}
+
+/**
+ * Outline of a surface on the building footprint, as seen from above
+ * @param surface Surface definition
+ * @param azm Building orientation in degrees
+ * @param size Side of the footprint in meters
+ * @returns Footprint polygon for horizontal surfaces, or the edge the surface normal points out of
+ */
+export const getSurfaceOutline = (surface: Surface, azm: number, size = FOOTPRINT_SIZE): SurfaceOutline => {
+  const half = size / 2;
+
+  if (surface.tilt === 0) {
+    const orientationRad = (-azm * Math.PI) / 180;
+    const points = [
+      [half, half],
+      [-half, half],
+      [-half, -half],
+      [half, -half],
+    ].map(
+      ([dx, dy]) =>
+        [
+          dx * Math.cos(orientationRad) - dy * Math.sin(orientationRad),
+          dx * Math.sin(orientationRad) + dy * Math.cos(orientationRad),
+        ] as [number, number],
+    );
+    return { flat: true, points };
+  }
+
+  const bearingRad = (getSurfaceBearing(surface, azm) * Math.PI) / 180;
+  const normal = { x: Math.sin(bearingRad), y: Math.cos(bearingRad) };
+  const along = { x: normal.y, y: -normal.x };
+  const points = [-1, 1].map(
+    (sign) => [normal.x * half + sign * along.x * half, normal.y * half + sign * along.y * half] as [number, number],
+  );
+  return { flat: false, points };
+};
@@ -0,0 +1,198 @@
+import tzLookup from '@photostructure/tz-lookup';
+
+// Calendar days are handled as YYYY-MM-DD strings, as used by date inputs
+export interface DayParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ZonedParts extends DayParts {
+  hour: number;
+  minute: number;
+}
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Check a calendar day, date inputs give an empty string while being edited
+ * @param value Untrusted value
+ * @returns Whether it is an existing day as YYYY-MM-DD
+ */
+export const isValidDay = (value: unknown): value is string => {
+  const match = typeof value === 'string' ? DAY_PATTERN.exec(value) : null;
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+};
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Find the IANA time zone of a location, without network access
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @returns Time zone identifier, falling back to the browser's zone for invalid coordinates
+ */
+export const lookupTimeZone = (lat: number, lon: number): string => {
+  try {
+    return tzLookup(lat, lon);
+  } catch {
+    return getBrowserTimeZone();
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Creating formatters is expensive, and sampling a year calls this thousands of times
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Read the wall clock of a time zone at a given instant
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Calendar day and time of day in that zone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts & { second: number } => {
+  // Formatters throw on invalid dates, which only spread NaN like plain date arithmetic would
+  if (Number.isNaN(date.getTime())) {
+    return { year: NaN, month: NaN, day: NaN, hour: NaN, minute: NaN, second: NaN };
+  }
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+const monthFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Read the month of a time zone's calendar at a given instant
+ * Much cheaper than getZonedParts, for lookups done at every sample.
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Month, 1 = January
+ */
+export const getZonedMonth = (date: Date, timeZone: string): number => {
+  let formatter = monthFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, month: 'numeric' });
+    monthFormatters.set(timeZone, formatter);
+  }
+  return Number.isNaN(date.getTime()) ? NaN : Number(formatter.format(date));
+};
+
+/**
+ * Offset of a time zone from UTC at a given instant
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Offset in minutes, positive east of Greenwich
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Find the instant a wall clock time occurs in a time zone
+ * Times skipped by a DST change resolve to the instant after the gap.
+ * @param parts Calendar day and time of day
+ * @param timeZone IANA time zone
+ * @returns Instant
+ */
+export const zonedTimeToDate = ({ year, month, day, hour, minute }: ZonedParts, timeZone: string): Date => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone) * 60000;
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(asUtc - offset * 60000);
+};
+
+export const parseDay = (day: string): DayParts => {
+  const [year, month, date] = day.split('-').map(Number);
+  return { year, month, day: date };
+};
+
+export const formatDayParts = ({ year, month, day }: DayParts): string =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Shift a calendar day
+ * @param day Day as YYYY-MM-DD
+ * @param offset Number of days to add
+ * @returns Day as YYYY-MM-DD
+ */
+export const addDays = (day: string, offset: number): string => {
+  const { year, month, day: date } = parseDay(day);
+  const shifted = new Date(Date.UTC(year, month - 1, date + offset));
+  return formatDayParts({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  });
+};
+
+/**
+ * Instants at which a calendar day starts and ends in a time zone
+ * @param day Day as YYYY-MM-DD
+ * @param timeZone IANA time zone
+ * @returns Local midnight and the following local midnight
+ */
+export const getDayBounds = (day: string, timeZone: string): { start: Date; end: Date } => ({
+  start: zonedTimeToDate({ ...parseDay(day), hour: 0, minute: 0 }, timeZone),
+  end: zonedTimeToDate({ ...parseDay(addDays(day, 1)), hour: 0, minute: 0 }, timeZone),
+});
+
+/**
+ * Current calendar day in a time zone
+ * @param timeZone IANA time zone
+ * @returns Day as YYYY-MM-DD
+ */
+export const getToday = (timeZone: string): string => formatDayParts(getZonedParts(new Date(), timeZone));
+
+/**
+ * Format the wall clock time of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Time as HH:MM
+ */
+export const formatTime = (date: Date, timeZone: string): string => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+/**
+ * Format a UTC offset
+ * @param offsetMinutes Offset in minutes, positive east of Greenwich
+ * @returns Offset as UTC±HH:MM
+ */
+export const formatOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `UTC${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+};
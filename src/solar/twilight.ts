@@ -0,0 +1,186 @@
+import SunCalc from 'suncalc';
+import { addDays, getDayBounds, parseDay, zonedTimeToDate } from './timezone';
+
+export type SkyPhase = 'day' | 'civilTwilight' | 'nauticalTwilight' | 'astronomicalTwilight' | 'night';
+
+/**
+ * Classify the sky by the sun's altitude, using the usual twilight limits of -6°, -12° and -18°
+ * @param altitudeRadians Sun altitude in radians
+ * @returns Sky phase
+ */
+export const getSkyPhase = (altitudeRadians: number): SkyPhase => {
+  const altitude = (altitudeRadians * 180) / Math.PI;
+  if (altitude > 0) return 'day';
+  if (altitude > -6) return 'civilTwilight';
+  if (altitude > -12) return 'nauticalTwilight';
+  if (altitude > -18) return 'astronomicalTwilight';
+  return 'night';
+};
+
+// Sky phases as photographers see them: the golden hour sets apart the low sun around sunrise and sunset,
+// the blue hour the deep blue sky of the darker half of civil twilight and the start of nautical twilight
+export type SunPhase = SkyPhase | 'goldenHour' | 'blueHour';
+
+// Moments of the day as returned by SunCalc.getTimes plus the blue hour limits, in time order
+export type SunEvent =
+  | 'nightEnd'
+  | 'nauticalDawn'
+  | 'blueHourDawn'
+  | 'dawn'
+  | 'blueHourEnd'
+  | 'sunrise'
+  | 'goldenHourEnd'
+  | 'solarNoon'
+  | 'goldenHour'
+  | 'sunset'
+  | 'blueHour'
+  | 'dusk'
+  | 'blueHourDusk'
+  | 'nauticalDusk'
+  | 'night';
+
+export interface SunEventTime {
+  event: SunEvent;
+  time: Date;
+}
+
+export interface SunPhaseBand {
+  phase: SunPhase;
+  start: Date;
+  end: Date;
+}
+
+// Phase starting at each event, solar noon and the civil twilight limits inside the blue hour change nothing
+const PHASE_AFTER: Record<SunEvent, SunPhase | null> = {
+  nightEnd: 'astronomicalTwilight',
+  nauticalDawn: 'nauticalTwilight',
+  blueHourDawn: 'blueHour',
+  dawn: null,
+  blueHourEnd: 'civilTwilight',
+  sunrise: 'goldenHour',
+  goldenHourEnd: 'day',
+  solarNoon: null,
+  goldenHour: 'goldenHour',
+  sunset: 'civilTwilight',
+  blueHour: 'blueHour',
+  dusk: null,
+  blueHourDusk: 'nauticalTwilight',
+  nauticalDusk: 'astronomicalTwilight',
+  night: 'night',
+};
+
+const SUN_EVENTS = Object.keys(PHASE_AFTER) as SunEvent[];
+
+// SunCalc's altitudes for sunrise and the end of the golden hour, in degrees
+const SUNRISE_ALTITUDE = -0.833;
+const GOLDEN_HOUR_ALTITUDE = 6;
+// Usual blue hour range, in degrees
+const BLUE_HOUR_HIGH = -4;
+const BLUE_HOUR_LOW = -8;
+const CROSSING_PRECISION = 1000; // ms
+
+/**
+ * Find when the sun crosses an altitude between two instants, by bisection
+ * The altitude must be monotonic in between, as it is from nadir to solar noon and back.
+ * @param from Start of the search
+ * @param to End of the search
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param altitude Altitude in degrees
+ * @returns Crossing time, Invalid Date when the sun stays on one side
+ */
+const findAltitudeCrossing = (from: Date, to: Date, lat: number, lon: number, altitude: number): Date => {
+  const target = (altitude * Math.PI) / 180;
+  const above = (time: number) => SunCalc.getPosition(new Date(time), lat, lon).altitude > target;
+
+  let low = from.getTime();
+  let high = to.getTime();
+  const rising = above(high);
+  if (above(low) === rising) return new Date(NaN);
+  while (high - low > CROSSING_PRECISION) {
+    const middle = (low + high) / 2;
+    if (above(middle) === rising) high = middle;
+    else low = middle;
+  }
+  return new Date(Math.round((low + high) / 2));
+};
+
+/**
+ * SunCalc's times of a day together with the blue hour limits
+ * @param date Instant on the day, local noon avoids picking the neighbouring day
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @returns Time of every sun event, Invalid Date for those that do not happen
+ */
+const getSunTimes = (date: Date, lat: number, lon: number): Record<SunEvent, Date> => {
+  const times = SunCalc.getTimes(date, lat, lon);
+  const nextNadir = new Date(times.nadir.getTime() + 24 * 3600000);
+  return {
+    ...times,
+    blueHourDawn: findAltitudeCrossing(times.nadir, times.solarNoon, lat, lon, BLUE_HOUR_LOW),
+    blueHourEnd: findAltitudeCrossing(times.nadir, times.solarNoon, lat, lon, BLUE_HOUR_HIGH),
+    blueHour: findAltitudeCrossing(times.solarNoon, nextNadir, lat, lon, BLUE_HOUR_HIGH),
+    blueHourDusk: findAltitudeCrossing(times.solarNoon, nextNadir, lat, lon, BLUE_HOUR_LOW),
+  };
+};
+
+/**
+ * Classify the sky by the sun's altitude, with SunCalc's limits for sunrise and the golden hour
+ * and the blue hour between -4° and -8°
+ * @param altitudeRadians Sun altitude in radians
+ * @returns Sun phase
+ */
+export const getSunPhase = (altitudeRadians: number): SunPhase => {
+  const altitude = (altitudeRadians * 180) / Math.PI;
+  if (altitude >= GOLDEN_HOUR_ALTITUDE) return 'day';
+  if (altitude > SUNRISE_ALTITUDE) return 'goldenHour';
+  if (altitude <= BLUE_HOUR_HIGH && altitude > BLUE_HOUR_LOW) return 'blueHour';
+  return getSkyPhase(altitudeRadians);
+};
+
+/**
+ * List the sun events falling on a day, including those of the nights before and after that cross midnight
+ * Events that do not happen, such as sunset during the polar day, are left out.
+ * @param day Day as YYYY-MM-DD in the location's time zone
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone of the location
+ * @returns Events in time order
+ */
+export const getSunEvents = (day: string, lat: number, lon: number, timeZone: string): SunEventTime[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+
+  return [-1, 0, 1]
+    .flatMap((offset) => {
+      const times = getSunTimes(
+        zonedTimeToDate({ ...parseDay(addDays(day, offset)), hour: 12, minute: 0 }, timeZone),
+        lat,
+        lon,
+      );
+      return SUN_EVENTS.map((event) => ({ event, time: times[event] }));
+    })
+    .filter(({ time }) => !Number.isNaN(time.getTime()) && time >= start && time < end)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Split a day into the sky phases it goes through
+ * @param day Day as YYYY-MM-DD in the location's time zone
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone of the location
+ * @returns Contiguous bands from local midnight to the next one
+ */
+export const getSunPhaseBands = (day: string, lat: number, lon: number, timeZone: string): SunPhaseBand[] => {
+  const { start, end } = getDayBounds(day, timeZone);
+  const bands: SunPhaseBand[] = [{ phase: getSunPhase(SunCalc.getPosition(start, lat, lon).altitude), start, end }];
+
+  for (const { event, time } of getSunEvents(day, lat, lon, timeZone)) {
+    const phase = PHASE_AFTER[event];
+    const current = bands[bands.length - 1];
+    if (phase === null || phase === current.phase) continue;
+    current.end = time;
+    bands.push({ phase, start: time, end });
+  }
+  return bands.filter((band) => band.end > band.start);
+};
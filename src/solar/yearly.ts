@@ -0,0 +1,76 @@
+import { calculateIntensitySeries, type IntensityOptions, type SunPositionData } from './intensity';
+import { getDaysOfYear, sampleDay } from './sampling';
+import { getZonedParts } from './timezone';
+
+export interface YearlySunPositions {
+  days: string[]; // YYYY-MM-DD
+  slotsPerDay: number;
+  samples: SunPositionData[][]; // one day of samples per entry of days
+  slots: number[][]; // wall clock slot of each sample
+}
+
+/**
+ * Sample the sun position over a whole year
+ * @param year Full year
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param timeZone IANA time zone the days are interpreted in
+ * @param intervalMinutes Time between samples
+ * @returns Samples for every day of the year
+ */
+export const sampleYear = (
+  year: number,
+  lat: number,
+  lon: number,
+  timeZone: string,
+  intervalMinutes = 30,
+): YearlySunPositions => {
+  const days = getDaysOfYear(year);
+  const samples = days.map((day) => sampleDay(day, lat, lon, timeZone, intervalMinutes));
+
+  const slotsPerDay = Math.round((24 * 60) / intervalMinutes);
+
+  // Samples are placed by their wall clock time, so slots skipped by a DST change stay empty.
+  // Only DST transition days have an unusual number of samples and need the zoned lookup.
+  const slots = samples.map((daySamples) =>
+    daySamples.length === slotsPerDay
+      ? daySamples.map((_, index) => index)
+      : daySamples.map(({ time }) => {
+          const { hour, minute } = getZonedParts(time, timeZone);
+          return Math.floor((hour * 60 + minute) / intervalMinutes);
+        }),
+  );
+
+  return {
+    days,
+    slotsPerDay,
+    samples,
+    slots,
+  };
+};
+
+/**
+ * Evaluate the intensity model on a day-of-year × time-of-day grid
+ * @param year Yearly sun positions
+ * @param sideAzimuthRadians Azimuth of the side in radians
+ * @param surfaceAltitudeRadians Altitude of the surface in radians (0 = vertical, π/2 = horizontal)
+ * @param options Optional obstructions around the surface and ground albedo
+ * @returns Global intensities (0-1), row-major by day
+ */
+export const calculateYearlyIntensity = (
+  year: YearlySunPositions,
+  sideAzimuthRadians: number,
+  surfaceAltitudeRadians: number,
+  options: IntensityOptions = {},
+): Float32Array => {
+  const grid = new Float32Array(year.days.length * year.slotsPerDay);
+
+  year.samples.forEach((daySamples, dayIndex) => {
+    const series = calculateIntensitySeries(daySamples, sideAzimuthRadians, surfaceAltitudeRadians, options);
+    series.forEach((sample, sampleIndex) => {
+      grid[dayIndex * year.slotsPerDay + year.slots[dayIndex][sampleIndex]] = sample.intensity;
+    });
+  });
+
+  return grid;
+};
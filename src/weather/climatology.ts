@@ -0,0 +1,28 @@
+import regions from './climatology.json';
+
+// Box of coordinates sharing a typical monthly cloudiness
+export interface ClimateRegion {
+  id: string;
+  lat: number[]; // [south, north] in degrees
+  lon: number[]; // [west, east] in degrees
+  clearSkyIndex: number[]; // typical ratio of actual to clear-sky irradiation, January first
+}
+
+// Coarse regional averages, ordered from the most specific to the catch-all latitude bands
+export const CLIMATE_REGIONS = regions as ClimateRegion[];
+
+/**
+ * Find the climate region a location falls in
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param climateRegions Regions to search, the first match wins
+ * @returns The region, or the last one when nothing matches
+ */
+export const findClimateRegion = (
+  lat: number,
+  lon: number,
+  climateRegions: ClimateRegion[] = CLIMATE_REGIONS,
+): ClimateRegion =>
+  climateRegions.find(
+    (region) => lat >= region.lat[0] && lat <= region.lat[1] && lon >= region.lon[0] && lon <= region.lon[1],
+  ) ?? climateRegions[climateRegions.length - 1];
@@ -0,0 +1,24 @@
+import { getDayBounds, getToday, lookupTimeZone } from '../solar';
+import recording from './fixtures/openMeteo.json';
+import { type OpenMeteoForecast, parseOpenMeteoForecast } from './openMeteo';
+import type { WeatherProvider } from './types';
+
+// Open-Meteo response recorded in Milan: a clear day, a day clouding over and an overcast day
+export const FIXTURE_FORECAST: OpenMeteoForecast = recording;
+
+/**
+ * Weather provider replaying a recorded forecast, to work without network access
+ * The recording is moved to start at local midnight of the current day, so it always covers the next days.
+ * @param forecast Recorded response
+ * @returns Weather provider
+ */
+export const createFixtureWeatherProvider = (forecast: OpenMeteoForecast = FIXTURE_FORECAST): WeatherProvider => ({
+  forecast: async (lat, lon) => {
+    const samples = parseOpenMeteoForecast(forecast);
+    if (samples.length === 0) return [];
+    const timeZone = lookupTimeZone(lat, lon);
+    const { start } = getDayBounds(getToday(timeZone), timeZone);
+    const offset = start.getTime() - samples[0].time.getTime();
+    return samples.map(({ time, cloudCover }) => ({ time: new Date(time.getTime() + offset), cloudCover }));
+  },
+});
@@ -0,0 +1,28 @@
+import type { CloudCover } from '../solar';
+import type { CloudCoverSample } from './types';
+
+const HOUR = 3_600_000;
+
+/**
+ * Look up forecast cloud cover by time
+ * Each hourly value applies from half an hour before to half an hour after it.
+ * @param samples Hourly forecast
+ * @returns Cloud cover at a time, null outside the forecast
+ */
+export const createCloudCoverLookup = (samples: CloudCoverSample[]): CloudCover => {
+  const byHour = new Map(samples.map(({ time, cloudCover }) => [Math.round(time.getTime() / HOUR), cloudCover]));
+  return (time) => byHour.get(Math.round(time.getTime() / HOUR)) ?? null;
+};
+
+/**
+ * Check whether a forecast covers a whole period
+ * An hour is allowed at either end, around midnight the sun is down at most latitudes anyway.
+ * @param samples Hourly forecast in time order
+ * @param start Start of the period
+ * @param end End of the period
+ * @returns True when the period lies within the forecast
+ */
+export const coversPeriod = (samples: CloudCoverSample[], start: Date, end: Date): boolean =>
+  samples.length > 0 &&
+  samples[0].time.getTime() - HOUR <= start.getTime() &&
+  samples[samples.length - 1].time.getTime() + HOUR >= end.getTime();
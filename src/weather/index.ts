@@ -0,0 +1,21 @@
+import { createFixtureWeatherProvider } from './fixture';
+import { createOpenMeteoProvider } from './openMeteo';
+import type { WeatherProvider } from './types';
+
+export type { ClimateRegion } from './climatology';
+export { CLIMATE_REGIONS, findClimateRegion } from './climatology';
+export { createFixtureWeatherProvider, FIXTURE_FORECAST } from './fixture';
+export { coversPeriod, createCloudCoverLookup } from './forecast';
+export type { OpenMeteoForecast } from './openMeteo';
+export { createOpenMeteoProvider, OPEN_METEO_URL, parseOpenMeteoForecast } from './openMeteo';
+export type { CloudCoverSample, WeatherOptions, WeatherProvider } from './types';
+
+/**
+ * Weather provider selected by the build environment
+ * PUBLIC_WEATHER is either "open-meteo" (default, using PUBLIC_WEATHER_URL when set) or "fixture".
+ * @returns Weather provider
+ */
+export const createWeatherProvider = (): WeatherProvider =>
+  import.meta.env.PUBLIC_WEATHER === 'fixture'
+    ? createFixtureWeatherProvider()
+    : createOpenMeteoProvider(import.meta.env.PUBLIC_WEATHER_URL || undefined);
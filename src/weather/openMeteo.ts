@@ -0,0 +1,46 @@
+import type { CloudCoverSample, WeatherProvider } from './types';
+
+export const OPEN_METEO_URL = 'https://api.open-meteo.com';
+
+// Subset of the /v1/forecast response requested with hourly=cloud_cover&timeformat=unixtime
+export interface OpenMeteoForecast {
+  hourly: {
+    time: number[]; // in seconds since the epoch
+    cloud_cover: Array<number | null>; // in percent
+  };
+}
+
+/**
+ * Read the hourly cloud cover out of an Open-Meteo forecast
+ * @param forecast Parsed response body
+ * @returns Hourly samples in time order, skipping hours without a value
+ */
+export const parseOpenMeteoForecast = (forecast: OpenMeteoForecast): CloudCoverSample[] =>
+  forecast.hourly.time
+    .map((time, index) => ({ time: new Date(time * 1000), cloudCover: forecast.hourly.cloud_cover[index] }))
+    .filter((sample): sample is { time: Date; cloudCover: number } => typeof sample.cloudCover === 'number')
+    .map(({ time, cloudCover }) => ({ time, cloudCover: Math.min(1, Math.max(0, cloudCover / 100)) }));
+
+/**
+ * Weather provider backed by an Open-Meteo-compatible /v1/forecast endpoint
+ * @param baseUrl Root URL of the service
+ * @param days Number of days to forecast, today included
+ * @returns Weather provider
+ */
+export const createOpenMeteoProvider = (baseUrl = OPEN_METEO_URL, days = 7): WeatherProvider => ({
+  forecast: async (lat, lon, { signal } = {}) => {
+    const url = new URL('v1/forecast', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    url.searchParams.set('latitude', lat.toFixed(4));
+    url.searchParams.set('longitude', lon.toFixed(4));
+    url.searchParams.set('hourly', 'cloud_cover');
+    url.searchParams.set('forecast_days', String(days));
+    url.searchParams.set('timeformat', 'unixtime');
+    url.searchParams.set('timezone', 'auto'); // days start at local midnight
+
+    const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Weather request failed with status ${response.status}`);
+    }
+    return parseOpenMeteoForecast((await response.json()) as OpenMeteoForecast);
+  },
+});
@@ -0,0 +1,13 @@
+export interface CloudCoverSample {
+  time: Date; // instant the value is valid at, on the hour, lookups use it from half an hour before to half an hour after
+  cloudCover: number; // share of the sky covered (0-1)
+}
+
+export interface WeatherOptions {
+  signal?: AbortSignal; // lets callers drop requests for a location they moved away from
+}
+
+// Anything able to tell how cloudy the next days will be
+export interface WeatherProvider {
+  forecast: (lat: number, lon: number, options?: WeatherOptions) => Promise<CloudCoverSample[]>;
+}